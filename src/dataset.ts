@@ -0,0 +1,198 @@
+import { ConversationHistory } from "./lib/ConversationHistory.js";
+import type { ChatMessage, Message } from "./types.js";
+
+/**
+ * A filter for the messages that are exported.
+ */
+export interface DatasetFilter {
+  /** The minimum feedback score (up votes minus down votes) of a message. */
+  minScore?: number;
+  /** The names of the actors whose messages are exported. By default, the
+   * messages of all actors are exported. */
+  speakers?: string[];
+}
+
+/**
+ * A prompt/completion pair, for fine-tuning completion models.
+ */
+export interface CompletionRecord {
+  /** The prompt that the message was generated from. */
+  prompt: string;
+  /** The text of the message. */
+  completion: string;
+}
+
+/**
+ * A chat-style record, for fine-tuning chat models. The record holds the
+ * messages that an actor could see before its turn, followed by the message
+ * of the actor.
+ */
+export interface ChatRecord {
+  /** The messages of the record: the actor itself is the assistant, other
+   * speakers are users, whose messages are prefixed with their name. */
+  messages: ChatMessage[];
+}
+
+/**
+ * A preference pair, for preference tuning (e.g. DPO).
+ */
+export interface PreferenceRecord {
+  /** The prompt that the messages were generated from. */
+  prompt: string;
+  /** The text of the preferred message. */
+  chosen: string;
+  /** The text of the rejected message. */
+  rejected: string;
+}
+
+/**
+ * Get the feedback score of a message: the up votes minus the down votes.
+ * @param message The message
+ * @returns The score of the message
+ */
+export function score({ feedback: [up, down] }: Message): number {
+  return up - down;
+}
+
+/**
+ * Whether a message passes a filter.
+ * @param message The message
+ * @param filter The filter
+ */
+function matches(
+  message: Message,
+  { minScore, speakers }: DatasetFilter,
+): boolean {
+  return (typeof minScore !== "number" || score(message) >= minScore) &&
+    (!speakers || speakers.includes(message.actor));
+}
+
+/**
+ * Get the generated messages of a history, i.e. the turns of the actors.
+ * @param history The history
+ */
+function turns(history: ConversationHistory): Message[] {
+  return history.getGenerated().filter((message) => !message.ephemeral);
+}
+
+/**
+ * Export the turns of a history as prompt/completion pairs. The prompt is the
+ * prompt that was captured when the turn was generated. Turns without a
+ * recorded prompt are skipped (see `ConversationOptions.recordPrompts`).
+ * @param history The history to export
+ * @param filter The filter for the turns
+ * @returns The records, in the order of the history
+ */
+export function exportCompletions(
+  history: ConversationHistory,
+  filter: DatasetFilter = {},
+): CompletionRecord[] {
+  return turns(history)
+    .filter((message) =>
+      message.generation!.prompt && matches(message, filter)
+    )
+    .map((message) => ({
+      prompt: message.generation!.prompt!,
+      completion: message.text,
+    }));
+}
+
+/**
+ * Export the turns of a history as chat-style records. Every record holds the
+ * messages that the actor could see before its turn (see
+ * `MessageVisibility`), followed by the turn itself.
+ * @param history The history to export
+ * @param system The system message of the records, e.g. the instructions of
+ * the actor, or a function that returns it for an actor
+ * @param filter The filter for the turns
+ * @returns The records, in the order of the history
+ */
+export function exportChat(
+  history: ConversationHistory,
+  { system, ...filter }: DatasetFilter & {
+    system?: string | ((actor: string) => string);
+  } = {},
+): ChatRecord[] {
+  return turns(history)
+    .filter((message) => matches(message, filter))
+    .map((turn) => {
+      const index = history.messages.indexOf(turn);
+      const content = typeof system === "function"
+        ? system(turn.actor)
+        : system;
+
+      const messages: ChatMessage[] = history.messages
+        .slice(0, index)
+        .filter((message) =>
+          !message.ephemeral &&
+          ConversationHistory.isVisibleTo(message, turn.actor)
+        )
+        .map((message) =>
+          message.actor === turn.actor
+            ? { role: "assistant", content: message.text }
+            : { role: "user", content: `${message.actor}: ${message.text}` }
+        );
+
+      return {
+        messages: [
+          ...content ? [{ role: "system" as const, content }] : [],
+          ...messages,
+          { role: "assistant", content: turn.text },
+        ],
+      };
+    });
+}
+
+/**
+ * Export the regenerated turns of a history as preference pairs. A turn and
+ * the versions it replaced (see `ConversationHistory.alternatives`) are
+ * ranked by their feedback score. The version with the highest score is
+ * chosen, and paired with every other version. When scores are equal, the
+ * newer version is preferred, since the older one was regenerated.
+ * @param history The history to export
+ * @param filter The filter for the chosen versions
+ * @returns The records, in the order of the history
+ */
+export function exportPreferences(
+  history: ConversationHistory,
+  filter: DatasetFilter = {},
+): PreferenceRecord[] {
+  const records: PreferenceRecord[] = [];
+
+  for (const message of turns(history)) {
+    const alternatives = history.alternatives[message.id];
+
+    if (!alternatives?.length) {
+      continue;
+    }
+
+    // Newest first, so the newest version wins ties
+    const [chosen, ...rejected] = [message, ...[...alternatives].reverse()]
+      .sort((a, b) => score(b) - score(a));
+
+    const prompt = chosen.generation?.prompt;
+
+    if (!prompt || !matches(chosen, filter)) {
+      continue;
+    }
+
+    for (const other of rejected) {
+      records.push({
+        prompt,
+        chosen: chosen.text,
+        rejected: other.text,
+      });
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Serialize records as JSON lines, e.g. to write a dataset to a file.
+ * @param records The records to serialize
+ * @returns One JSON object per line
+ */
+export function toJSONL(records: object[]): string {
+  return records.map((record) => `${JSON.stringify(record)}\n`).join("");
+}
@@ -1,5 +1,15 @@
 export * from "./util.js";
+export * from "./snapshot.js";
+export * from "./middleware.js";
+export * from "./schema.js";
+export * from "./dataset.js";
+export * from "./providers.js";
+export * from "./mock.js";
+export * from "./tokenizer.js";
 export * from "./lib/Actor.js";
 export * from "./lib/Conversation.js";
 export * from "./lib/ConversationHistory.js";
+export * from "./lib/ConversationStore.js";
 export * from "./lib/Scheduler.js";
+export * from "./lib/TemplateRegistry.js";
+export * from "./lib/VectorStore.js";
@@ -5,16 +5,112 @@ import type {
   ActorKnowledge,
   ActorMemory,
   ActorPersona,
+  ActorSnapshot,
+  ChatMessage,
+  Embeddings,
   Message,
+  Reflection,
+  ReflectionOptions,
+  RenderedEntry,
+  Rendering,
+  RenderReport,
+  Summary,
+  TokenCount,
+  Tool,
 } from "../types.js";
 import { Conversation } from "./Conversation.js";
-import { buildWindow, loadTemplate, reduce } from "../util.js";
+import { ConversationHistory } from "./ConversationHistory.js";
+import { TemplateRegistry, templates } from "./TemplateRegistry.js";
+import {
+  buildWindow,
+  explainWindow,
+  heuristic,
+  loadTemplate,
+  mask,
+  parseJSON,
+  reduce,
+  similarity,
+  WindowEntry,
+} from "../util.js";
 
 /**
- * The default template for an actor. The template is used to render the actor
- * prompt.
+ * The default template for summaries. The template is used to render the
+ * prompt that condenses messages into the summary of a conversation.
  */
-const DEFAULT_TEMPLATE = await loadTemplate("actor");
+const SUMMARY_TEMPLATE = await loadTemplate("summary");
+
+/**
+ * The default template for reflections. The template is used to render the
+ * prompt that extracts what an actor has learned from a conversation.
+ */
+const REFLECTION_TEMPLATE = await loadTemplate("reflection");
+
+/**
+ * The layout of a prompt: the rendered prompt, and what it was chosen from.
+ */
+interface Layout {
+  /** The rendered prompt. */
+  rendering: Rendering;
+  /** The actor data that the entries of the prompt were chosen from, by
+   * section. */
+  data: Record<string, Record<string, ActorData[]>>;
+  /** The messages that the messages of the prompt were chosen from. */
+  messages: Message[];
+  /** The size of the context window, the number of tokens that the actor data
+   * could take, and the entries that were considered for the window. */
+  window?: { max: number; budget: number; entries: WindowEntry[] };
+}
+
+/**
+ * Add up token counts. The measured count is only known if all of the counts
+ * were measured.
+ * @param counts The counts to add up.
+ */
+function total(counts: TokenCount[]): TokenCount {
+  const estimated = counts.reduce((sum, count) => sum + count.estimated, 0);
+
+  return counts.every((count) => typeof count.measured === "number")
+    ? {
+      estimated,
+      measured: counts.reduce((sum, count) => sum + count.measured!, 0),
+    }
+    : { estimated };
+}
+
+/**
+ * Whether a message is condensed into the summary of a conversation. The
+ * summary is shared by all actors, so only public messages that stay in the
+ * history are condensed into it.
+ * @param message The message.
+ */
+function shared(message: Message): boolean {
+  return !message.ephemeral && (message.visibility ?? "public") === "public";
+}
+
+/**
+ * Get the messages of a history that are not condensed into its summary:
+ * the messages after the summary, and the messages before it that are not
+ * shared (see `shared()`).
+ * @param messages The messages of the history.
+ * @param summary The summary of the history.
+ */
+function unsummarized(messages: Message[], summary?: Summary): Message[] {
+  const count = summary?.count ?? 0;
+  return messages.filter((message, index) =>
+    index >= count || !shared(message)
+  );
+}
+
+/**
+ * Remove the `generateText` function from the reflection options, so they can
+ * be serialized.
+ * @param reflection The reflection options.
+ */
+function serializable(
+  { generateText: _, ...reflection }: ReflectionOptions,
+): Omit<ReflectionOptions, "generateText"> {
+  return reflection;
+}
 
 /**
  * The type of an actor. The type is used to categorize the actor.
@@ -107,12 +203,16 @@ export class Actor {
    *
    * @param name The name of the actor.
    * @param template The template to render with.
+   * @param partials The partials of the template, by name (see
+   * `TemplateRegistry`).
    * @param participants The perticipants in the conversation.
    * @param context The context of the actor.
    * @param persona The persona of the actor.
    * @param knowledge The knowledge of the actor.
    * @param memory The memory of the actor.
    * @param messages The messages to render with.
+   * @param summary The summary of the messages that are not rendered.
+   * @param tools The tools that the actor can call.
    */
   static render(
     {
@@ -120,12 +220,15 @@ export class Actor {
       conversation,
       actor,
       template,
+      partials,
       participants,
       context,
       persona,
       knowledge,
       memory,
       messages,
+      summary,
+      tools,
     }: {
       name: string;
       conversation: {
@@ -134,14 +237,18 @@ export class Actor {
       };
       actor: Actor;
       template: string;
+      partials?: Record<string, string>;
       participants?: Actor[];
       context: ActorData[];
       persona: ActorData[];
       knowledge: ActorData[];
       memory: ActorData[];
       messages: Message[];
+      summary?: Summary;
+      tools?: Tool[];
     },
   ): string {
+    // Prompts are not HTML, so values are not escaped (e.g. tool calls)
     return mustache.render(template, {
       name,
       conversation,
@@ -152,16 +259,68 @@ export class Actor {
       knowledge,
       memory,
       messages,
+      summary,
+      tools: tools?.map(({ name, description, parameters }) => ({
+        name,
+        description,
+        parameters: JSON.stringify(parameters),
+      })),
+    }, partials, { escape: String });
+  }
+
+  /**
+   * Restore an actor from a snapshot created by `Actor.toJSON()`.
+   * @param snapshot The snapshot to restore.
+   * @param registry The registry of the partials of the templates (default:
+   * the default registry).
+   * @returns The restored actor.
+   */
+  static fromJSON(
+    snapshot: ActorSnapshot,
+    { registry }: { registry?: TemplateRegistry } = {},
+  ): Actor {
+    const {
+      id,
+      name,
+      template,
+      systemTemplate,
+      partials,
+      context,
+      persona,
+      knowledge,
+      memory,
+      reflection,
+    } = structuredClone(snapshot);
+
+    return new Actor(name, {
+      id,
+      template,
+      systemTemplate,
+      partials,
+      registry,
+      reflection,
+      context,
+      persona,
+      knowledge,
+      memory,
     });
   }
 
   /** The unique identifier of the actor. */
-  readonly id;
+  readonly id: string;
   /** The name of the actor. */
   readonly name: string;
   /** The prompt template for the actor. This template is used to generate the
    * prompt for the actor. */
   readonly template: string;
+  /** The template of the system message of chat prompts (see
+   * `actor.renderChat()`). */
+  readonly systemTemplate: string;
+  /** The partials of the actor, which override the partials of the registry,
+   * e.g. to replace a section of the template. */
+  readonly partials: Record<string, string>;
+  /** The registry that the partials of the templates are taken from. */
+  readonly registry: TemplateRegistry;
   /** The context of the actor. The context is used to store information about
    * the actor. */
   readonly context: ActorContext = {};
@@ -174,41 +333,77 @@ export class Actor {
   /** The memory of the actor. The memory is used to store information about the
    * actor. */
   readonly memory: ActorMemory = {};
+  /** The reflection options of the actor. If provided, the actor can reflect
+   * on conversations to evolve its persona, knowledge and memory. */
+  readonly reflection?: ReflectionOptions;
+  /** The tools that the actor can call, in addition to the tools of the
+   * conversation. */
+  readonly tools: Tool[];
 
   /**
    * Creates a new actor. The actor is used to store information about the
    * person or entity. The information is used to determine the behavior of the
    * actor.
    *
+   * The templates are validated: they have to compile, and may only reference
+   * the variables of actor templates and the partials of the registry and the
+   * actor.
+   *
    * @param name The name of the actor.
+   * @param registry The registry of templates and partials. If not provided,
+   * the default registry is used.
    * @param template The prompt template for the actor. If not provided, the
-   * default template is used.
+   * `actor` template of the registry is used.
+   * @param systemTemplate The template of the system message of chat prompts.
+   * If not provided, the `system` template of the registry is used.
+   * @param partials The partials that override the partials of the registry,
+   * by name.
    * @param context The context of the actor.
    * @param persona The persona of the actor.
    * @param knowledge The knowledge of the actor.
    * @param memory The memory of the actor.
+   * @param reflection The reflection options of the actor.
+   * @param tools The tools that the actor can call.
    */
   constructor(
     name: string,
     {
       id = crypto.randomUUID(),
-      template = DEFAULT_TEMPLATE,
+      registry = templates,
+      template = registry.get("actor"),
+      systemTemplate = registry.get("system"),
+      partials = {},
       context,
       persona,
       knowledge,
       memory,
+      reflection,
+      tools = [],
     }: {
       id?: string;
+      registry?: TemplateRegistry;
       template?: string;
+      systemTemplate?: string;
+      partials?: Record<string, string>;
       context?: Record<string, ActorData[]>;
       persona?: Partial<Record<PersonaType, ActorData[]>>;
       knowledge?: Partial<Record<KnowledgeType, ActorData[]>>;
       memory?: Partial<Record<MemoryType, ActorData[]>>;
+      reflection?: ReflectionOptions;
+      tools?: Tool[];
     } = {},
   ) {
     this.id = id;
     this.name = name;
     this.template = template;
+    this.systemTemplate = systemTemplate;
+    this.partials = partials;
+    this.registry = registry;
+    this.reflection = reflection;
+
+    registry.validate(template, partials);
+    registry.validate(systemTemplate, partials);
+    this.tools = tools;
 
     if (context) {
       for (const [name, data] of Object.entries(context)) {
@@ -239,57 +434,844 @@ export class Actor {
    * Render the actor's prompt. The prompt is generated from the actor's
    * template. The prompt is generated using the actor's context, persona,
    * knowledge, memory, and the message history of the conversation.
+   *
+   * If the conversation has a context window, the window is shared between the
+   * actor data and the message history (see `ContextWindow.history`). The actor
+   * data entries are added by priority, within the quotas of their sections
+   * (see `explainWindow()`), and the most recent messages that fit are
+   * included. The tokens are counted using the
+   * tokens of the data entries and messages, or using the tokenizer of the
+   * conversation (see `conversation.countTokens()`). The rendered
+   * prompt never exceeds the window: if it does, messages (and then actor
+   * data) are dropped until it fits.
+   *
+   * If the conversation summarizes its history, the messages that fall outside
+   * of the window are condensed into the rolling summary of the conversation
+   * instead of being dropped. The summary is rendered in the `summary` section
+   * of the template, or stored as a conversation memory of the actor.
+   *
+   * If the conversation retrieves relevant knowledge and memory, the entries
+   * are ranked by their similarity to the latest messages (see
+   * `RetrievalOptions`), so that only the relevant entries enter the prompt.
+   *
+   * Only the messages that the actor can see are rendered (see
+   * `MessageVisibility`).
+   *
    * @param conversation The conversation to render with.
    * @returns The rendered prompt.
    */
-  render(conversation: Conversation): string {
-    const context = {
+  async render(conversation: Conversation): Promise<string> {
+    return (await this.compose(conversation)).prompt;
+  }
+
+  /**
+   * Render the actor's prompt as chat messages, for models that take
+   * role-tagged messages (see `GenerateChat`). The instructions and the actor
+   * data are rendered into the system message with the system template of the
+   * actor. The messages of the actor are `assistant` messages, the messages of
+   * the other participants are `user` messages that start with the name of the
+   * speaker. If the last message is not a `user` message, a `user` message
+   * that asks the actor to continue is added, since chat models answer user
+   * messages.
+   *
+   * The same actor data and messages are included as in `actor.render()`.
+   * @param conversation The conversation to render with.
+   * @returns The chat messages.
+   */
+  async renderChat(conversation: Conversation): Promise<ChatMessage[]> {
+    return (await this.compose(conversation, { chat: true })).chat!;
+  }
+
+  /**
+   * Render the actor's prompt (see `actor.render()`), and describe what it was
+   * rendered from: the actor data entries that were included in the context
+   * window, and the messages.
+   * @param conversation The conversation to render with.
+   * @param chat Whether to render the chat messages as well (see
+   * `actor.renderChat()`).
+   * @returns The rendered prompt, and the entries and messages it includes.
+   */
+  async compose(
+    conversation: Conversation,
+    { chat = false }: { chat?: boolean } = {},
+  ): Promise<Rendering> {
+    return (await this.layout(conversation, { chat })).rendering;
+  }
+
+  /**
+   * Render the actor's prompt (see `actor.render()`) without summarizing, and
+   * report how it was rendered: the number of tokens of the prompt and of
+   * every section, the actor data entries that were included or dropped and
+   * why, and the messages that were included or dropped. The numbers of
+   * tokens are estimated with the heuristic, and measured with the tokens of
+   * the entries and messages or the tokenizer (or `generateTokens` function)
+   * of the conversation, so the two can be compared.
+   *
+   * If the conversation summarizes its history, the dropped messages are the
+   * messages that would be condensed into the summary.
+   * @param conversation The conversation to render with.
+   * @returns The report.
+   */
+  async explainRender(conversation: Conversation): Promise<RenderReport> {
+    const { rendering, data, messages, window } = await this.layout(
+      conversation,
+      { dryRun: true },
+    );
+    const measurable = conversation.tokenizer || conversation.generateTokens;
+
+    const measure = async (
+      value: string | ActorData | Message,
+    ): Promise<TokenCount> => ({
+      estimated: heuristic(
+        typeof value === "string"
+          ? value
+          : "text" in value
+          ? value.text
+          : value.value,
+      ),
+      ...typeof value !== "string" && value.tokens || measurable
+        ? { measured: await conversation.countTokens(value) }
+        : {},
+    });
+
+    // Without a window, every entry is included
+    const considered: Omit<WindowEntry, "index" | "score" | "count">[] =
+      window?.entries ??
+        Object.entries(data).flatMap(([section, types]) =>
+          Object.values(types).flat().map((entry) => ({
+            ...entry,
+            section,
+            included: true,
+            reason: entry.keep ? "keep" as const : "priority" as const,
+          }))
+        );
+
+    // The entries that were not retrieved as relevant
+    const irrelevant = Object.entries({
       context: this.context,
       persona: this.persona,
       knowledge: this.knowledge,
       memory: this.memory,
+    }).flatMap(([section, types]) =>
+      Object.values(types).flat()
+        .filter(({ type, name }) =>
+          !data[section]?.[type]?.some((entry) => entry.name === name)
+        )
+        .map((entry) => ({
+          ...entry,
+          section,
+          included: false,
+          reason: "relevance" as const,
+        }))
+    );
+
+    const entries: RenderedEntry[] = [];
+
+    for (const entry of [...considered, ...irrelevant]) {
+      const { section, type, name, included, reason, keep, priority } = entry;
+
+      entries.push({
+        section,
+        type,
+        name,
+        included,
+        reason,
+        ...typeof keep === "boolean" ? { keep } : {},
+        ...typeof priority === "number" ? { priority } : {},
+        tokens: await measure(entry),
+      });
+    }
+
+    const sections: Record<string, TokenCount> = {};
+
+    for (const section of ["context", "persona", "knowledge", "memory"]) {
+      sections[section] = total(
+        entries
+          .filter((entry) => entry.included && entry.section === section)
+          .map(({ tokens }) => tokens),
+      );
+    }
+
+    const included = new Set(rendering.messages);
+    const counts: TokenCount[] = [];
+
+    for (const message of messages) {
+      if (included.has(message.id)) {
+        counts.push(await measure(message));
+      }
+    }
+
+    sections.messages = total(counts);
+
+    return {
+      prompt: rendering.prompt,
+      tokens: await measure(rendering.prompt),
+      sections,
+      entries,
+      messages: {
+        included: rendering.messages,
+        dropped: messages
+          .filter(({ id }) => !included.has(id))
+          .map(({ id }) => id),
+      },
+      ...window ? { window: { max: window.max, budget: window.budget } } : {},
     };
+  }
+
+  /**
+   * Lay out the actor's prompt: choose the actor data and the messages that
+   * fit in the context window, summarizing the messages that do not fit if
+   * the conversation summarizes its history, and render the prompt.
+   * @param conversation The conversation to render with.
+   * @param chat Whether to render the chat messages as well.
+   * @param dryRun Whether to leave the messages that do not fit as they are,
+   * instead of summarizing them, and the actor data as it is, instead of
+   * storing the summary as a memory.
+   * @returns The layout of the prompt.
+   */
+  private async layout(
+    conversation: Conversation,
+    { chat = false, dryRun = false }: { chat?: boolean; dryRun?: boolean },
+  ): Promise<Layout> {
+    const { history, summarize } = conversation;
+    const query = await this.query(conversation);
+
+    const visible = (message: Message) =>
+      ConversationHistory.isVisibleTo(message, this.name);
+
+    if (!conversation.window) {
+      const messages = unsummarized(history.messages, history.summary)
+        .filter(visible);
+      const retrieved = await this.retrieve(conversation, query, messages);
+      const data = {
+        context: Object.values(retrieved.context).flat(),
+        persona: Object.values(retrieved.persona).flat(),
+        knowledge: Object.values(retrieved.knowledge).flat(),
+        memory: Object.values(retrieved.memory).flat(),
+      };
 
-    const window = conversation.window
-      ? buildWindow(
-        context,
-        typeof conversation.window === "object"
-          ? conversation.window.max
-          : conversation.window,
-      )
-      : {
-        context: Object.values(this.context).flat(),
-        persona: Object.values(this.persona).flat(),
-        knowledge: Object.values(this.knowledge).flat(),
-        memory: Object.values(this.memory).flat(),
+      return {
+        rendering: this.describe(
+          conversation,
+          this.renderWith(conversation, data, messages, history.summary),
+          data,
+          messages,
+          history.summary,
+          chat,
+        ),
+        data: retrieved,
+        messages,
       };
+    }
 
+    while (true) {
+      const { summary } = history;
+
+      if (summary && summarize?.mode === "memory" && !dryRun) {
+        this.remember(conversation, summary);
+      }
+
+      // Messages that are covered by the summary are not rendered
+      const messages = unsummarized(history.messages, summary).filter(visible);
+      const data = await this.retrieve(conversation, query, messages);
+      const { rendering, dropped, window } = await this.fit(
+        conversation,
+        data,
+        messages,
+        summarize?.mode === "memory" ? undefined : summary,
+        chat,
+      );
+
+      // Condense the messages after the summary, up to the last message that
+      // fell outside of the window. Messages before the summary that fell
+      // outside of the window are not shared (see `unsummarized()`), so as
+      // many messages after the summary are condensed to make room for them
+      const after = history.messages.slice(summary?.count ?? 0);
+      const end = Math.min(
+        after.length,
+        Math.max(after.indexOf(messages[dropped - 1]) + 1, dropped),
+      );
+
+      if (!summarize || !end || dryRun) {
+        return { rendering, data, messages, window };
+      }
+
+      history.summary = await this.summarize(conversation, after.slice(0, end));
+    }
+  }
+
+  /**
+   * Fit the actor data and the messages in the context window of the
+   * conversation, and render the prompt. The most recent messages that fit are
+   * rendered.
+   * @param conversation The conversation to render with.
+   * @param data The actor data to render with, by section.
+   * @param messages The messages to render with.
+   * @param summary The summary to render with.
+   * @param chat Whether to render the chat messages as well.
+   * @returns The rendered prompt, the number of (oldest) messages that did
+   * not fit in the window, and the window of the actor data.
+   */
+  private async fit(
+    conversation: Conversation,
+    data: Record<string, Record<string, ActorData[]>>,
+    messages: Message[],
+    summary: Summary | undefined,
+    chat: boolean,
+  ): Promise<{
+    rendering: Rendering;
+    dropped: number;
+    window: Required<Layout>["window"];
+  }> {
+    const { max, history = 0.5, ...options } =
+      typeof conversation.window === "object"
+        ? conversation.window
+        : { max: conversation.window! };
+    const now = Date.now();
+
+    // Count the tokens of the data entries and messages that have no tokens.
+    // The window copies the entries, so the counts are looked up by text
+    const counts = new Map<string, number>();
+
+    for (const section of Object.values(data)) {
+      for (const entry of Object.values(section).flat()) {
+        if (!entry.tokens && !counts.has(entry.value)) {
+          counts.set(entry.value, await conversation.countTokens(entry));
+        }
+      }
+    }
+
+    for (const message of messages) {
+      if (!message.tokens && !counts.has(message.text)) {
+        counts.set(message.text, await conversation.countTokens(message));
+      }
+    }
+
+    const countData = (entry: ActorData) =>
+      entry.tokens?.length ?? counts.get(entry.value)!;
+    const countMessage = (message: Message) =>
+      message.tokens?.length ?? counts.get(message.text)!;
+
+    let budget = Math.floor(max * (1 - history));
+
+    while (budget >= 0) {
+      const window = buildWindow(data, budget, countData, { ...options, now });
+      const used = Object.values(window).flat().reduce(
+        (total, entry) => total + countData(entry),
+        0,
+      );
+
+      let unmasked = mask(messages, max - used, countMessage);
+
+      while (true) {
+        const prompt = this.renderWith(
+          conversation,
+          window,
+          unmasked,
+          summary,
+        );
+        const overflow = (await conversation.countTokens(prompt)) - max;
+
+        if (overflow <= 0) {
+          return {
+            rendering: this.describe(
+              conversation,
+              prompt,
+              window,
+              unmasked,
+              summary,
+              chat,
+            ),
+            dropped: messages.length - unmasked.length,
+            window: {
+              max,
+              budget,
+              entries: explainWindow(data, budget, countData, {
+                ...options,
+                now,
+              }),
+            },
+          };
+        }
+
+        if (!unmasked.length) {
+          // Not even the actor data fits, so shrink the budget of the data
+          budget = budget > 0 ? Math.max(0, budget - overflow) : -1;
+          break;
+        }
+
+        // Drop the oldest messages until the overflow is covered
+        let dropped = 0;
+        let index = 0;
+
+        while (index < unmasked.length && dropped < overflow) {
+          dropped += Math.max(1, countMessage(unmasked[index++]));
+        }
+
+        unmasked = unmasked.slice(index);
+      }
+    }
+
+    throw new Error(
+      `The prompt of '${this.name}' does not fit in the context window`,
+    );
+  }
+
+  /**
+   * Embed the latest messages of the conversation, to retrieve the relevant
+   * knowledge and memory, and to recall episodic memories with.
+   * @param conversation The conversation to embed the messages of.
+   * @returns The embeddings of the messages, or `undefined` if the
+   * conversation does not retrieve relevant entries or recall memories, or
+   * there is nothing to embed.
+   */
+  private async query(
+    conversation: Conversation,
+  ): Promise<Embeddings | undefined> {
+    const { retrieval, episodic, generateEmbeddings } = conversation;
+
+    if (!retrieval && !episodic) {
+      return undefined;
+    }
+
+    const messages = conversation.history.getVisibleMessages(this.name)
+      .filter((message) => message.text.trim())
+      .slice(-(retrieval?.messages ?? 1));
+
+    const embeddings: Embeddings = [];
+
+    for (const message of messages) {
+      const vectors = message.embeddings ??
+        await generateEmbeddings?.(message.text);
+
+      if (vectors) {
+        embeddings.push(...vectors);
+      }
+    }
+
+    return embeddings.length ? embeddings : undefined;
+  }
+
+  /**
+   * Get the actor data to render with. If embeddings of the latest messages
+   * are given, the episodic memories of the actor that are most similar to the
+   * messages are recalled into the memory section. The memories of the
+   * messages that are rendered are not recalled, as they are in the prompt
+   * already.
+   *
+   * If the conversation retrieves relevant entries, the knowledge and memory
+   * entries are ranked by their similarity to the messages, combined with
+   * their priority. The score replaces the priority of the entries, so the
+   * most relevant entries are preferred when the context window is built.
+   * Entries without embeddings are embedded (once) using the
+   * `generateEmbeddings` function of the conversation.
+   * @param conversation The conversation to render with.
+   * @param query The embeddings of the latest messages.
+   * @param messages The messages that are rendered.
+   * @returns The actor data, by section.
+   */
+  private async retrieve(
+    conversation: Conversation,
+    query: Embeddings | undefined,
+    messages: Message[],
+  ): Promise<Record<string, Record<string, ActorData[]>>> {
+    const data: Record<string, Record<string, ActorData[]>> = {
+      context: this.context,
+      persona: this.persona,
+      knowledge: this.knowledge,
+      memory: this.memory,
+    };
+
+    const { retrieval, episodic, generateEmbeddings } = conversation;
+
+    if (!query) {
+      return data;
+    }
+
+    if (episodic) {
+      const recall = episodic.recall ?? 5;
+      // The ids of the memories of the rendered messages (see
+      // `Conversation.remember()`)
+      const rendered = new Set(
+        messages.map((message) => `${message.id}:${this.id}`),
+      );
+      const matches = await episodic.store.query(query, {
+        k: recall + rendered.size,
+        filter: { actor: this.id },
+      });
+
+      data.memory = { ...this.memory };
+
+      for (
+        const { record, score } of matches
+          .filter(({ record }) => !rendered.has(record.id))
+          .slice(0, recall)
+      ) {
+        data.memory[record.type] = [
+          ...data.memory[record.type] ?? [],
+          {
+            name: record.id,
+            type: record.type,
+            value: record.value,
+            embeddings: record.embeddings,
+            priority: score,
+            createdAt: record.createdAt,
+          },
+        ];
+      }
+    }
+
+    if (!retrieval) {
+      return data;
+    }
+
+    const { weight = 0.01, limit } = retrieval;
+
+    for (const section of ["knowledge", "memory"]) {
+      const scored: { type: string; entry: ActorData; score: number }[] = [];
+
+      for (const [type, entries] of Object.entries(data[section])) {
+        for (const entry of entries) {
+          entry.embeddings ??= await generateEmbeddings?.(entry.value);
+
+          const relevance = entry.embeddings
+            ? similarity(query, entry.embeddings)
+            : 0;
+
+          scored.push({
+            type,
+            entry,
+            score: relevance + weight * (entry.priority ?? 0),
+          });
+        }
+      }
+
+      const relevant = typeof limit === "number"
+        ? new Set(
+          [...scored].sort((a, b) => b.score - a.score).slice(0, limit),
+        )
+        : new Set(scored);
+
+      data[section] = {};
+
+      for (const item of scored) {
+        if (relevant.has(item)) {
+          (data[section][item.type] ??= []).push({
+            ...item.entry,
+            priority: item.score,
+          });
+        }
+      }
+    }
+
+    return data;
+  }
+
+  /**
+   * Condense messages into the rolling summary of the conversation. The
+   * previous summary is updated with the messages.
+   * @param conversation The conversation to summarize.
+   * @param messages The messages to condense, i.e. the messages that follow
+   * the messages covered by the previous summary.
+   * @returns The updated summary.
+   */
+  private async summarize(
+    conversation: Conversation,
+    messages: Message[],
+  ): Promise<Summary> {
+    const {
+      generateText = conversation.generateText,
+      template = SUMMARY_TEMPLATE,
+    } = conversation.summarize ?? {};
+
+    if (!generateText) {
+      throw new TypeError("No 'generateText' function provided");
+    }
+
+    const previous = conversation.history.summary;
+    const { text } = await generateText(mustache.render(template, {
+      conversation,
+      summary: previous,
+      // The other messages are still rendered for the actors that can see
+      // them (see `unsummarized()`)
+      messages: messages.filter(shared),
+    }, {}, { escape: String }));
+
+    return {
+      text: text.trim(),
+      count: (previous?.count ?? 0) + messages.length,
+    };
+  }
+
+  /**
+   * Reflect on the recent history of a conversation. The model extracts the
+   * new facts, the opinions about the other participants, the updated beliefs
+   * and the memories of the actor, which are written into its knowledge,
+   * persona and memory with their priorities (see `Reflection`). An entry
+   * replaces the existing entry of the same type and name, so the actor's
+   * beliefs and relationships evolve instead of accumulating.
+   * @param conversation The conversation to reflect on.
+   * @returns The entries that were written.
+   */
+  async reflect(conversation: Conversation): Promise<Reflection> {
+    const {
+      messages = 20,
+      generateText = conversation.generateText,
+      template = REFLECTION_TEMPLATE,
+    } = this.reflection ?? {};
+
+    if (!generateText) {
+      throw new TypeError("No 'generateText' function provided");
+    }
+
+    const { text } = await generateText(mustache.render(template, {
+      name: this.name,
+      conversation,
+      actor: this,
+      participants: conversation.actors.filter((actor) => actor !== this),
+      persona: Object.values(this.persona).flat(),
+      knowledge: Object.values(this.knowledge).flat(),
+      messages: conversation.history.getVisibleMessages(this.name)
+        .filter((message) => !message.ephemeral)
+        .slice(-messages),
+    }, {}, { escape: String }));
+
+    const output = parseJSON<Partial<Record<keyof Reflection, unknown>>>(text);
+
+    return {
+      facts: this.learn(this.knowledge, KnowledgeType.Fact, output.facts),
+      relationships: this.learn(
+        this.persona,
+        PersonaType.Relationship,
+        output.relationships,
+      ),
+      beliefs: this.learn(this.persona, PersonaType.Belief, output.beliefs),
+      memories: this.learn(
+        this.memory,
+        MemoryType.Experience,
+        output.memories,
+        Date.now(),
+      ),
+    };
+  }
+
+  /**
+   * Write the entries of a reflection into the actor data. Entries without a
+   * name or value are ignored. The entries replace the existing entries of the
+   * same name.
+   * @param data The actor data to write into.
+   * @param type The type of the entries.
+   * @param items The entries of the reflection, as generated by the model.
+   * @param createdAt When the entries were created, for memories.
+   * @returns The entries that were written.
+   */
+  private learn(
+    data: Record<string, ActorData[]>,
+    type: string,
+    items: unknown,
+    createdAt?: number,
+  ): ActorData[] {
+    if (!Array.isArray(items)) {
+      return [];
+    }
+
+    const entries: ActorData[] = [];
+
+    for (const item of items) {
+      const { name, value, priority } = item ?? {};
+
+      if (typeof name !== "string" || typeof value !== "string") {
+        continue;
+      }
+
+      entries.push({
+        name,
+        type,
+        value,
+        ...typeof priority === "number" ? { priority } : {},
+        ...createdAt !== undefined ? { createdAt } : {},
+      });
+    }
+
+    const names = new Set(entries.map((entry) => entry.name));
+
+    data[type] = [
+      ...(data[type] ?? []).filter((entry) => !names.has(entry.name)),
+      ...entries,
+    ];
+
+    return entries;
+  }
+
+  /**
+   * Store the summary of a conversation as a conversation memory of the actor.
+   * The memory replaces the previous summary of the same conversation.
+   * @param conversation The conversation that is summarized.
+   * @param summary The summary of the conversation.
+   */
+  private remember(conversation: Conversation, summary: Summary): void {
+    const name = `summary:${conversation.id}`;
+    const memories = (this.memory[MemoryType.Conversation] ?? []).filter((
+      entry,
+    ) => entry.name !== name);
+
+    memories.push({
+      name,
+      type: MemoryType.Conversation,
+      value: summary.text,
+      description: `A summary of the conversation '${conversation.name}'`,
+      keep: true,
+      createdAt: Date.now(),
+    });
+
+    this.memory[MemoryType.Conversation] = memories;
+  }
+
+  /**
+   * Describe a rendered prompt: the actor data entries and the messages that
+   * it was rendered from, and the chat messages with the same actor data and
+   * messages, if requested.
+   * @param conversation The conversation that was rendered with.
+   * @param prompt The rendered prompt.
+   * @param data The actor data that was rendered, by section.
+   * @param messages The messages that were rendered.
+   * @param summary The summary that was rendered.
+   * @param chat Whether to render the chat messages.
+   * @returns The description of the prompt.
+   */
+  private describe(
+    conversation: Conversation,
+    prompt: string,
+    data: Record<string, ActorData[]>,
+    messages: Message[],
+    summary: Summary | undefined,
+    chat: boolean,
+  ): Rendering {
+    return {
+      prompt,
+      ...chat
+        ? { chat: this.chat(conversation, data, messages, summary) }
+        : {},
+      entries: Object.entries(data).flatMap(([section, entries]) =>
+        entries.map(({ type, name }) => ({ section, type, name }))
+      ),
+      messages: messages.map(({ id }) => id),
+    };
+  }
+
+  /**
+   * Render the chat messages of the actor's prompt (see `actor.renderChat()`).
+   * @param conversation The conversation to render with.
+   * @param data The actor data to render with.
+   * @param messages The messages to render with.
+   * @param summary The summary of the messages that are not rendered.
+   * @returns The chat messages.
+   */
+  private chat(
+    conversation: Conversation,
+    data: Record<string, ActorData[]>,
+    messages: Message[],
+    summary?: Summary,
+  ): ChatMessage[] {
+    const chat: ChatMessage[] = [
+      {
+        role: "system",
+        content: this.renderWith(
+          conversation,
+          data,
+          [],
+          summary,
+          this.systemTemplate,
+        ).trim(),
+      },
+      ...messages.map(({ actor, text }): ChatMessage =>
+        actor === this.name
+          ? { role: "assistant", content: text }
+          : { role: "user", content: `${actor}: ${text}` }
+      ),
+    ];
+
+    if (chat[chat.length - 1].role !== "user") {
+      chat.push({
+        role: "user",
+        content: `Continue the conversation as ${this.name}.`,
+      });
+    }
+
+    return chat;
+  }
+
+  /**
+   * Render the actor's prompt with the given actor data and messages.
+   * @param conversation The conversation to render with.
+   * @param data The actor data to render with.
+   * @param messages The messages to render with.
+   * @param summary The summary of the messages that are not rendered.
+   * @param template The template to render with (default: the template of the
+   * actor).
+   * @returns The rendered prompt.
+   */
+  private renderWith(
+    conversation: Conversation,
+    data: Record<string, ActorData[]>,
+    messages: Message[],
+    summary?: Summary,
+    template = this.template,
+  ): string {
     return Actor.render({
       name: this.name,
       conversation: conversation,
       actor: this,
       participants: conversation.actors.filter((actor) => actor !== this),
+      template,
+      partials: this.registry.getPartials(this.partials),
+      context: data.context ?? [],
+      persona: data.persona ?? [],
+      knowledge: data.knowledge ?? [],
+      memory: data.memory ?? [],
+      messages,
+      summary,
+      tools: conversation.getTools(this),
+    });
+  }
+
+  /**
+   * Create a copy of the actor, e.g. for a fork of a conversation. The data of
+   * the copy can change independently of the actor. The copy keeps the id,
+   * tools and reflection options of the actor.
+   * @returns The copy.
+   */
+  clone(): Actor {
+    return new Actor(this.name, {
+      id: this.id,
       template: this.template,
-      context: window.context,
-      persona: window.persona,
-      knowledge: window.knowledge,
-      memory: window.memory,
-      messages: conversation.history.messages,
+      systemTemplate: this.systemTemplate,
+      partials: this.partials,
+      registry: this.registry,
+      context: structuredClone(this.context),
+      persona: structuredClone(this.persona),
+      knowledge: structuredClone(this.knowledge),
+      memory: structuredClone(this.memory),
+      reflection: this.reflection,
+      tools: this.tools,
     });
   }
 
   /**
    * Transform the actor into a JSON-seralizable object.
    */
-  toJSON() {
+  toJSON(): ActorSnapshot {
     return {
       id: this.id,
       name: this.name,
       template: this.template,
+      systemTemplate: this.systemTemplate,
+      ...Object.keys(this.partials).length ? { partials: this.partials } : {},
       context: reduce(this.context),
       persona: reduce(this.persona),
       knowledge: reduce(this.knowledge),
       memory: reduce(this.memory),
+      ...this.reflection ? { reflection: serializable(this.reflection) } : {},
     };
   }
 }
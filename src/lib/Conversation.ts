@@ -1,16 +1,182 @@
 import type {
   ActorData,
+  ChatMessage,
   ContextWindow,
+  ConversationSnapshot,
   Embeddings,
+  EpisodicMemoryOptions,
+  GenerateChat,
   GenerateEmbeddings,
+  Generation,
   GenerateText,
+  GenerateTextResult,
+  GenerateTextStream,
   GenerateTokens,
   Message,
+  MessageInput,
+  MessageVisibility,
+  Reflection,
+  Rendering,
+  RetrievalOptions,
+  SummarizeOptions,
+  Summary,
+  Tokenizer,
+  Tool,
+  ToolCall,
+  ToolCallResult,
+  TurnChunk,
   TurnResponse,
 } from "../types.js";
-import { Actor } from "./Actor.js";
-import { ConversationHistory } from "./ConversationHistory.js";
-import { RoundRobinScheduler, Scheduler } from "./Scheduler.js";
+import { createHash } from "crypto";
+import { EventEmitter } from "events";
+import { default as mustache } from "mustache";
+import { Actor, MemoryType } from "./Actor.js";
+import {
+  ConversationHistory,
+  ConversationHistoryEvents,
+} from "./ConversationHistory.js";
+import type { ConversationStore } from "./ConversationStore.js";
+import type { TemplateRegistry } from "./TemplateRegistry.js";
+import type { VectorRecord } from "./VectorStore.js";
+import {
+  RoundRobinScheduler,
+  Scheduler,
+  SchedulerFactory,
+  schedulers,
+} from "./Scheduler.js";
+import { SNAPSHOT_VERSION, upgradeSnapshot } from "../snapshot.js";
+import { applyMiddleware, GenerateTextMiddleware } from "../middleware.js";
+import { JSONSchema, parse, validate } from "../schema.js";
+import {
+  formatToolCall,
+  heuristic,
+  loadTemplate,
+  parseToolCalls,
+} from "../util.js";
+
+/**
+ * The template of the format instructions that are appended to the prompt of
+ * turns and queries with a schema.
+ */
+const FORMAT_TEMPLATE = await loadTemplate("format");
+
+/**
+ * The function that generates the answers of a turn: a `GenerateText` function
+ * that takes a prompt, or a `GenerateChat` function that takes chat messages.
+ */
+type Generator =
+  | { generateText: GenerateText; generateChat?: undefined }
+  | { generateChat: GenerateChat; generateText?: undefined };
+
+/**
+ * The prompt of an answer, and its chat messages if the answer is generated
+ * with a `GenerateChat` function.
+ */
+type Prompt = Pick<Rendering, "prompt" | "chat">;
+
+/**
+ * The options of a conversation.
+ */
+export interface ConversationOptions {
+  /** The unique identifier of the conversation. If not provided, a random
+   * identifier is generated. */
+  id?: string;
+  /** The actors in the conversation. */
+  actors: Actor[];
+  /** The function that generates text. */
+  generateText?: GenerateText;
+  /** The function that generates text given chat messages. If provided, the
+   * prompts of turns and queries are rendered as chat messages (see
+   * `actor.renderChat()`), unless a `generateText` function is passed to the
+   * call. */
+  generateChat?: GenerateChat;
+  /** The function that generates text as a stream of text deltas. */
+  generateTextStream?: GenerateTextStream;
+  /** The function that generates tokens. */
+  generateTokens?: GenerateTokens;
+  /** The tokenizer that counts the tokens of the prompts, the actor data and
+   * the messages. If no `generateTokens` function is provided, the tokenizer
+   * generates the tokens as well. */
+  tokenizer?: Tokenizer;
+  /** The function that generates embeddings. */
+  generateEmbeddings?: GenerateEmbeddings;
+  /** The scheduler of the conversation, or a factory that creates it
+   * (default: `RoundRobinScheduler`). */
+  scheduler?: typeof Scheduler | SchedulerFactory;
+  /** The messages to bootstrap the conversation with. */
+  messages?: MessageInput[];
+  /** The context window size of the conversation. */
+  window?: ContextWindow | number;
+  /** The store to persist the conversation in. */
+  store?: ConversationStore;
+  /** The middleware to apply to every `generateText` call. */
+  middleware?: GenerateTextMiddleware[];
+  /** Whether to condense the messages that fall outside of the context window
+   * into a rolling summary, instead of dropping them. */
+  summarize?: SummarizeOptions | boolean;
+  /** Whether to rank the knowledge and memory of the actors by their
+   * similarity to the latest messages, so only the relevant entries enter the
+   * prompt. */
+  retrieval?: RetrievalOptions | boolean;
+  /** The episodic memory of the actors. If provided, the actors form memories
+   * of the conversation as it runs, and recall them in later turns and later
+   * conversations. */
+  episodic?: EpisodicMemoryOptions;
+  /** The tools that all actors can call during their turns. */
+  tools?: Tool[];
+  /** The maximum number of times an actor can call tools in a turn before it
+   * has to answer (default: `5`). */
+  maxToolIterations?: number;
+  /** Whether to store the prompt of generated messages in their generation
+   * record (default: `true`). If `false`, only the hash of the prompt is
+   * stored, which keeps the history and its snapshots small. */
+  recordPrompts?: boolean;
+}
+
+/**
+ * The events emitted by a conversation, and their payloads. The events of the
+ * history (`ConversationHistoryEvents`) are forwarded from the history.
+ */
+export interface ConversationEvents extends ConversationHistoryEvents {
+  /** Emitted before the speaker of a turn is prompted. Listeners can change the
+   * prompt. */
+  beforeTurn: { speaker: Actor; prompt: string; chat?: ChatMessage[] };
+  /** Emitted after a turn, once the message has been added to the history. */
+  afterTurn: TurnResponse;
+  /** Emitted when a message is injected into the conversation, unless a
+   * `message` listener vetoed it. */
+  inject: Message;
+  /** Emitted when the conversation is queried. */
+  query: { query: string; answerer: Actor; response: TurnResponse };
+  /** Emitted when an entry is set on, or removed from, the context. */
+  contextChanged: { name: string; action: "set" | "del"; value?: string };
+  /** Emitted when an actor has reflected on the conversation after its turn
+   * (see `ReflectionOptions.every`). If the reflection failed, e.g. because
+   * the model did not answer with JSON, the payload holds the `error` instead,
+   * as the turn itself succeeded. */
+  reflection:
+    | { actor: Actor; reflection: Reflection; error?: undefined }
+    | { actor: Actor; reflection?: undefined; error: unknown };
+}
+
+export interface Conversation {
+  on<E extends keyof ConversationEvents>(
+    event: E,
+    listener: (payload: ConversationEvents[E]) => void,
+  ): this;
+  once<E extends keyof ConversationEvents>(
+    event: E,
+    listener: (payload: ConversationEvents[E]) => void,
+  ): this;
+  off<E extends keyof ConversationEvents>(
+    event: E,
+    listener: (payload: ConversationEvents[E]) => void,
+  ): this;
+  emit<E extends keyof ConversationEvents>(
+    event: E,
+    payload: ConversationEvents[E],
+  ): boolean;
+}
 
 /**
  * A conversation is a collection of actors that take turns speaking. The
@@ -36,10 +202,92 @@ import { RoundRobinScheduler, Scheduler } from "./Scheduler.js";
  *  ],
  * });
  * ```
+ *
+ * The conversation emits events during its lifecycle, which can be used for
+ * logging, moderation and metrics (see `ConversationEvents`).
  */
-export class Conversation {
+export class Conversation extends EventEmitter {
+  /**
+   * Restore a conversation from a snapshot created by `Conversation.toJSON()`.
+   * The actors, history, context window and scheduler state are restored.
+   * Snapshots created by older versions of the package are upgraded first.
+   *
+   * Functions can not be serialized, so the text, token and embedding
+   * generation functions have to be provided again.
+   *
+   * @param snapshot The snapshot to restore.
+   * @param options The options of the conversation (see `ConversationOptions`).
+   * If no scheduler is provided, the scheduler is found in the scheduler
+   * registry by the type in the snapshot.
+   * @param registry The template registry of the actors, for actors whose
+   * templates use partials that are not in the default registry (see
+   * `Actor.fromJSON()`).
+   * @returns The restored conversation.
+   */
+  static fromJSON(
+    snapshot: ConversationSnapshot,
+    { scheduler, registry, ...options }:
+      & Omit<ConversationOptions, "id" | "actors" | "messages" | "window">
+      & { registry?: TemplateRegistry } = {},
+  ): Conversation {
+    const { id, name, window, actors, history, scheduler: state } =
+      upgradeSnapshot(snapshot);
+    const restored = ConversationHistory.fromJSON(history);
+
+    const conversation = new Conversation(name, {
+      ...options,
+      id,
+      actors: actors.map((actor) => Actor.fromJSON(actor, { registry })),
+      scheduler: scheduler ??
+        ((conversation) => schedulers.create(conversation, state)),
+      messages: restored.messages,
+      window,
+    });
+
+    if (scheduler) {
+      conversation.scheduler.restore(state);
+    }
+
+    conversation.history.summary = restored.summary;
+    Object.assign(conversation.history.alternatives, restored.alternatives);
+
+    return conversation;
+  }
+
+  /**
+   * Load a conversation from a store. The conversation is restored from the
+   * stored snapshot and the messages appended since, and keeps persisting new
+   * messages to the store.
+   * @param store The store to load the conversation from.
+   * @param id The id of the conversation.
+   * @param options The options to restore the conversation with (see
+   * `Conversation.fromJSON()`).
+   * @returns The conversation, or `undefined` if it is not found.
+   */
+  static async load(
+    store: ConversationStore,
+    id: string,
+    options: Omit<Parameters<typeof Conversation.fromJSON>[1], "store"> = {},
+  ): Promise<Conversation | undefined> {
+    const snapshot = await store.load(id);
+
+    if (!snapshot) {
+      return undefined;
+    }
+
+    const conversation = Conversation.fromJSON(snapshot, {
+      ...options,
+      store,
+    });
+
+    conversation.saved = true;
+    conversation.savedSummary = conversation.history.summary;
+
+    return conversation;
+  }
+
   /** A unique identifier for the conversation. */
-  readonly id = crypto.randomUUID();
+  readonly id: string;
   /** The name of the conversation. */
   readonly name: string;
   /** The actors in the conversation. */
@@ -48,12 +296,51 @@ export class Conversation {
   readonly history = new ConversationHistory();
   /** The function that generates text. */
   readonly generateText?: GenerateText;
+  /** The function that generates text given chat messages. */
+  readonly generateChat?: GenerateChat;
+  /** The function that generates text as a stream of text deltas. */
+  readonly generateTextStream?: GenerateTextStream;
   /** The function that generates tokens. */
   readonly generateTokens?: GenerateTokens;
+  /** The tokenizer that counts tokens, if any. */
+  readonly tokenizer?: Tokenizer;
   /** The function that generates embeddings. */
   readonly generateEmbeddings?: GenerateEmbeddings;
   /** The scheduler of the conversation. */
   readonly scheduler: Scheduler;
+  /** The store the conversation is persisted in, if any. */
+  readonly store?: ConversationStore;
+  /** The middleware that is applied to every `generateText` call. */
+  readonly middleware: GenerateTextMiddleware[];
+  /** The options of the summarization of the history, if the messages that
+   * fall outside of the context window are summarized. */
+  readonly summarize?: SummarizeOptions;
+  /** The options of the retrieval of relevant knowledge and memory, if the
+   * entries are ranked by their similarity to the latest messages. */
+  readonly retrieval?: RetrievalOptions;
+  /** The episodic memory of the actors, if the actors form memories. */
+  readonly episodic?: EpisodicMemoryOptions;
+  /** The tools that all actors can call during their turns. */
+  readonly tools: Tool[];
+  /** The maximum number of times an actor can call tools in a turn. */
+  readonly maxToolIterations: number;
+  /** Whether the prompt of generated messages is stored in their generation
+   * record. */
+  readonly recordPrompts: boolean;
+  /** The number of turns since memories were last formed. */
+  private turnsSinceMemory = 0;
+  /** Whether the snapshot of the conversation is in the store. */
+  private saved = false;
+  /** The summary of the history when the snapshot was last saved. */
+  private savedSummary?: Summary;
+  /** The messages that have been considered for the episodic memory. */
+  private readonly considered = new WeakSet<Message>();
+  /** The token counts of actor data entries and messages, with the text that
+   * was counted. */
+  private readonly counts = new WeakMap<
+    ActorData | Message,
+    { text: string; count: number }
+  >();
 
   /**
    * The context window size for the conversation. The context window is used to
@@ -65,42 +352,107 @@ export class Conversation {
   constructor(
     name: string,
     {
+      id = crypto.randomUUID(),
       actors,
       generateText,
+      generateChat,
+      generateTextStream,
       generateTokens,
+      tokenizer,
       generateEmbeddings,
       scheduler = RoundRobinScheduler,
       messages,
       window,
-    }: {
-      actors: Actor[];
-      generateText?: GenerateText;
-      generateTokens?: GenerateTokens;
-      generateEmbeddings?: GenerateEmbeddings;
-      scheduler?: typeof Scheduler;
-      messages?: Message[];
-      window?: ContextWindow | number;
-    },
+      store,
+      middleware = [],
+      summarize,
+      retrieval,
+      episodic,
+      tools = [],
+      maxToolIterations = 5,
+      recordPrompts = true,
+    }: ConversationOptions,
   ) {
+    super();
+
+    this.id = id;
     this.name = name;
     this.actors = actors;
     this.generateText = generateText;
-    this.generateTokens = generateTokens;
+    this.generateChat = generateChat;
+    this.generateTextStream = generateTextStream;
+    this.generateTokens = generateTokens ??
+      (tokenizer && (async (text) => await tokenizer.encode(text)));
+    this.tokenizer = tokenizer;
     this.generateEmbeddings = generateEmbeddings;
-    this.scheduler = new scheduler(this);
+    this.scheduler = scheduler === Scheduler ||
+        scheduler.prototype instanceof Scheduler
+      ? new (scheduler as typeof Scheduler)(this)
+      : (scheduler as SchedulerFactory)(this);
+    this.store = store;
+    this.middleware = middleware;
+    this.summarize = summarize === true ? {} : summarize || undefined;
+    this.retrieval = retrieval === true ? {} : retrieval || undefined;
+    this.episodic = episodic;
+    this.tools = tools;
+    this.maxToolIterations = maxToolIterations;
+    this.recordPrompts = recordPrompts;
 
     if (messages?.length) {
-      this.history.messages.push(...messages);
+      this.history.messages.push(
+        ...messages.map(ConversationHistory.createMessage),
+      );
+    }
+
+    const forwarded = [
+      "message",
+      "feedback",
+      "ephemeralCleaned",
+      "edited",
+      "deleted",
+    ] as const;
+
+    for (const event of forwarded) {
+      this.history.on(event, (payload) => this.emit(event, payload));
     }
 
     if (typeof window !== "undefined") {
-      const valid = (typeof window === "number" && window < 0) ||
-        (typeof window === "object" && window.max < 0);
+      const valid = (typeof window === "number" && window > 0) ||
+        (typeof window === "object" && window.max > 0);
 
       if (!valid) {
         throw new Error("The context window must be a positive number.");
       }
 
+      if (
+        typeof window === "object" && typeof window.history !== "undefined" &&
+        (window.history < 0 || window.history > 1)
+      ) {
+        throw new Error("The history share must be between 0 and 1.");
+      }
+
+      if (typeof window === "object") {
+        const quotas = Object.values(window.quotas ?? {});
+        const share = (value?: number) =>
+          typeof value === "undefined" || (value >= 0 && value <= 1);
+
+        if (
+          quotas.some(({ min, max }) =>
+            !share(min) || !share(max) || (min ?? 0) > (max ?? 1)
+          ) ||
+          quotas.reduce((total, { min = 0 }) => total + min, 0) > 1
+        ) {
+          throw new Error(
+            "The section quotas must be between 0 and 1, and the minimums " +
+              "must not exceed the maximums or add up to more than 1.",
+          );
+        }
+
+        if (window.decay && !(window.decay.halfLife > 0)) {
+          throw new Error("The half-life of the decay must be positive.");
+        }
+      }
+
       this.window = window;
     }
   }
@@ -181,6 +533,8 @@ export class Conversation {
           entry.push(data);
           actor.context[name] = entry;
         }
+
+        this.emit("contextChanged", { name, action: "set", value });
       },
       /**
        * Remove an entry from the context. The entry is shared between all
@@ -192,6 +546,8 @@ export class Conversation {
         for (const actor of this.actors) {
           delete actor.context[name];
         }
+
+        this.emit("contextChanged", { name, action: "del" });
       },
       /**
        * Get an entry from the context. The entry is shared between all actors
@@ -222,35 +578,52 @@ export class Conversation {
    * @param answerer The actor that is being spoken to.
    * @param query The query to ask.
    * @param generateText A function that generates text given a prompt.
+   * @param generateChat A function that generates text given chat messages.
+   * If provided (or if the conversation has one, and no `generateText`
+   * function is passed), the prompt is rendered as chat messages.
+   * @param middleware The middleware to apply to the `generateText` call, in
+   * addition to the middleware of the conversation.
+   * @param signal The signal to abort the query.
    * @param store Whether to store the response in the conversation history.
+   * @param schema The JSON schema of the response. If provided, the response
+   * is parsed and validated, and returned as `data` (see `turn()`).
+   * @param retries The number of times the answerer is prompted again when
+   * the response does not match the schema (default: `2`).
    * @returns The speaker and the response.
    */
-  async query(
+  async query<Data = unknown>(
     {
       speaker,
       answerer,
       query,
-      generateText = this.generateText,
+      generateText,
+      generateChat,
       generateTokens = this.generateTokens,
       generateEmbeddings = this.generateEmbeddings,
+      middleware,
+      signal,
       store = false,
+      schema,
+      retries = 2,
     }: {
       speaker: Actor | string;
       answerer: Actor;
       query: string;
       generateText?: GenerateText;
+      generateChat?: GenerateChat;
       generateTokens?: GenerateTokens;
       generateEmbeddings?: GenerateEmbeddings;
+      middleware?: GenerateTextMiddleware[];
+      signal?: AbortSignal;
       store?: boolean | {
         query?: boolean;
         response?: boolean;
       };
+      schema?: JSONSchema;
+      retries?: number;
     },
-  ): Promise<TurnResponse> {
-    if (!generateText) {
-      throw new Error("No 'generateText' function provided");
-    }
-
+  ): Promise<TurnResponse<Data>> {
+    const generator = this.generator(generateText, generateChat);
     const ephemeral = typeof store === "boolean" ? !store : !store.query;
 
     const message = await this.buildMessage({
@@ -259,39 +632,89 @@ export class Conversation {
       tokens: false,
       embeddings: false,
       ephemeral,
+      to: [answerer],
     });
 
-    this.history.push(message);
+    await this.commit(message);
 
-    const prompt = answerer.render(this);
-    const { text, tokens, embeddings } = await generateText(prompt);
+    let rendering: Rendering;
+    let feedback: { text: string; errors: string } | undefined;
+    let prompt: Prompt;
+    let result: GenerateTextResult;
+    let latency: number;
+    let data: Data | undefined;
 
-    if (ephemeral) {
-      this.history.cleanEphemeral();
+    // An ephemeral query is removed, even if the query fails
+    try {
+      rendering = await answerer.compose(this, {
+        chat: !!generator.generateChat,
+      });
+
+      for (let attempt = 0;; attempt++) {
+        prompt = schema ? this.format(rendering, schema, feedback) : rendering;
+
+        const start = performance.now();
+        result = await this.run(generator, prompt, middleware, signal);
+        latency = performance.now() - start;
+
+        if (!schema) {
+          break;
+        }
+
+        const parsed = parse<Data>(schema, result.text);
+
+        if (!parsed.errors.length) {
+          data = parsed.data;
+          break;
+        }
+
+        feedback = this.reject(
+          answerer,
+          result,
+          parsed.errors,
+          attempt,
+          retries,
+        );
+      }
+    } finally {
+      if (ephemeral) {
+        this.history.cleanEphemeral();
+      }
     }
 
+    const { text, tokens, embeddings } = result;
+
     if (store === true || (store as { response?: boolean }).response === true) {
-      this.history.push(
+      await this.commit(
         await this.buildMessage({
           speaker: answerer.name,
           text,
           tokens: tokens ?? typeof generateTokens === "function",
           embeddings: embeddings ??
             typeof generateEmbeddings === "function",
+          to: [speaker],
+          // An ephemeral query is removed, so the response can not reply to it
+          replyTo: ephemeral ? undefined : message,
+          generation: await this.record(rendering, prompt, result, latency),
         }),
       );
     }
 
-    return {
+    const response: TurnResponse<Data> = {
       speaker: typeof speaker === "string" ? speaker : speaker.name,
       actor: speaker instanceof Actor
         ? speaker
         : this.actors.find((actor) => actor.name === speaker),
       text,
-      prompt,
+      prompt: prompt.prompt,
+      ...prompt.chat ? { chat: prompt.chat } : {},
       tokens,
       embeddings,
+      ...schema ? { data } : {},
     };
+
+    this.emit("query", { query, answerer, response });
+    return response;
   }
 
   /**
@@ -307,14 +730,34 @@ export class Conversation {
    * determine the similarity between messages.
    * @param ephemeral Whether the message is ephemeral. By default the message
    * is not ephemeral.
+   * @param to The actors that the message is addressed to.
+   * @param replyTo The message (or the id of the message) that the message
+   * replies to.
+   * @param metadata Free-form metadata of the message.
+   * @param visibility Who can see the message (default: `"public"`).
+   * @returns The message. If a `message` listener vetoed the message, it is
+   * not added to the history and no `inject` event is emitted.
    */
   async inject(
     text: string,
-    { speaker = "System", tokens, embeddings, ephemeral }: {
+    {
+      speaker = "System",
+      tokens,
+      embeddings,
+      ephemeral,
+      to,
+      replyTo,
+      metadata,
+      visibility,
+    }: {
       speaker?: string | Actor;
       tokens?: number[] | boolean;
       embeddings?: Embeddings | boolean;
       ephemeral?: boolean;
+      to?: (Actor | string)[];
+      replyTo?: Message | string;
+      metadata?: Record<string, unknown>;
+      visibility?: MessageVisibility;
     },
   ): Promise<Message> {
     const message = await this.buildMessage({
@@ -323,9 +766,16 @@ export class Conversation {
       tokens,
       embeddings,
       ephemeral,
+      to,
+      replyTo,
+      metadata,
+      visibility,
     });
 
-    this.history.push(message);
+    if (await this.commit(message)) {
+      this.emit("inject", message);
+    }
+
     return message;
   }
 
@@ -335,66 +785,416 @@ export class Conversation {
    * the conversation. The response is used to update the history of the
    * conversation.
    *
-   * @param speaker The actor that is speaking. If no speaker is provided, the
-   * scheduler is used to determine which actor should speak next.
+   * If the actor can call tools (see `getTools()`), the tool calls of the actor
+   * are run, and the calls and their results are added to the history, after
+   * which the actor is prompted again, until it answers without calling tools.
+   * The turn fails when the actor keeps calling tools for more than
+   * `maxToolIterations` iterations.
+   *
+   * If a schema is given, format instructions are appended to the prompt, and
+   * the answer is parsed as JSON and validated against the schema. When the
+   * answer does not match, the actor is prompted again with the errors, up to
+   * `retries` times, after which the turn fails. The parsed answer is returned
+   * as `data`.
+   *
+   * @param speaker The actor that is speaking, or a promise that resolves to
+   * the actor. If no speaker is provided, the scheduler is used to determine
+   * which actor should speak next.
    * @param generateText A function that generates text given a prompt.
+   * @param generateChat A function that generates text given chat messages.
+   * If provided (or if the conversation has one, and no `generateText`
+   * function is passed), the prompt is rendered as chat messages.
+   * @param middleware The middleware to apply to the `generateText` call, in
+   * addition to the middleware of the conversation.
+   * @param signal The signal to abort the turn.
+   * @param schema The JSON schema of the answer.
+   * @param retries The number of times the actor is prompted again when the
+   * answer does not match the schema (default: `2`).
+   * @param to The actors that the answer is addressed to.
+   * @param visibility Who can see the answer (default: `"public"`).
    * @returns The speaker and the response.
    */
-  async turn(
+  async turn<Data = unknown>(
     {
-      speaker = this.scheduler.getNextSpeaker(),
-      generateText = this.generateText,
+      speaker,
+      generateText,
+      generateChat,
+      middleware,
+      signal,
+      schema,
+      retries = 2,
+      to,
+      visibility,
     }: {
-      speaker?: Actor;
+      speaker?: Actor | Promise<Actor>;
       generateText?: GenerateText;
+      generateChat?: GenerateChat;
+      middleware?: GenerateTextMiddleware[];
+      signal?: AbortSignal;
+      schema?: JSONSchema;
+      retries?: number;
+      to?: (Actor | string)[];
+      visibility?: MessageVisibility;
     },
-  ): Promise<TurnResponse> {
-    if (!generateText) {
-      throw new TypeError("No 'generateText' function provided");
+  ): Promise<TurnResponse<Data>> {
+    const generator = this.generator(generateText, generateChat);
+    const actor = await (speaker ?? this.scheduler.getNextSpeaker());
+    const tools = this.getTools(actor);
+    const toolCalls: ToolCallResult[] = [];
+    const audience = { to, visibility };
+    let feedback: { text: string; errors: string } | undefined;
+    let iterations = 0;
+    let attempts = 0;
+
+    // The ephemeral messages, e.g. of the tool calls, are removed even if the
+    // turn fails
+    try {
+      while (true) {
+        const rendering = await this.prompt(actor, !!generator.generateChat);
+        const prompt = schema
+          ? this.format(rendering, schema, feedback)
+          : rendering;
+
+        const start = performance.now();
+        const result = await this.run(generator, prompt, middleware, signal);
+        const latency = performance.now() - start;
+
+        const calls = tools.length
+          ? result.toolCalls ?? parseToolCalls(result.text)
+          : [];
+
+        if (calls.length) {
+          if (iterations++ >= this.maxToolIterations) {
+            throw new Error(
+              `'${actor.name}' exceeded the maximum of ${this.maxToolIterations} tool iterations`,
+            );
+          }
+
+          toolCalls.push(...await this.callTools(actor, tools, calls, signal));
+          feedback = undefined;
+          continue;
+        }
+
+        const answer = async () => ({
+          ...prompt,
+          generation: await this.record(rendering, prompt, result, latency),
+          result,
+        });
+
+        if (!schema) {
+          return await this.answer<Data>(
+            actor,
+            await answer(),
+            toolCalls,
+            audience,
+          );
+        }
+
+        const { data, errors } = parse<Data>(schema, result.text);
+
+        if (!errors.length) {
+          return await this.answer(
+            actor,
+            await answer(),
+            toolCalls,
+            audience,
+            { data },
+          );
+        }
+
+        feedback = this.reject(actor, result, errors, attempts++, retries);
+      }
+    } finally {
+      this.history.cleanEphemeral();
+    }
+  }
+
+  /**
+   * Append the format instructions of a schema to a prompt. The instructions
+   * of chat messages are appended to the system message.
+   * @param prompt The prompt to append the instructions to.
+   * @param schema The schema that the answer must match.
+   * @param feedback The previous answer and the reasons it was rejected.
+   * @returns The prompt with the format instructions.
+   */
+  private format(
+    { prompt, chat }: Prompt,
+    schema: JSONSchema,
+    feedback?: { text: string; errors: string },
+  ): Prompt {
+    const render = (prompt: string) =>
+      mustache.render(FORMAT_TEMPLATE, {
+        prompt,
+        schema: JSON.stringify(schema),
+        feedback,
+      }, {}, { escape: String });
+
+    return {
+      prompt: render(prompt),
+      ...chat
+        ? {
+          chat: [
+            { ...chat[0], content: render(chat[0].content) },
+            ...chat.slice(1),
+          ],
+        }
+        : {},
+    };
+  }
+
+  /**
+   * Reject an answer that does not match the schema. The answer and the
+   * errors are fed back to the actor on the next attempt.
+   * @param actor The actor that answered.
+   * @param result The rejected answer.
+   * @param errors The parse or validation errors.
+   * @param attempt The number of the attempt, starting at `0`.
+   * @param retries The maximum number of retries.
+   * @returns The feedback for the next attempt.
+   * @throws {Error} If there are no retries left.
+   */
+  private reject(
+    actor: Actor,
+    { text }: GenerateTextResult,
+    errors: string[],
+    attempt: number,
+    retries: number,
+  ): { text: string; errors: string } {
+    if (attempt >= retries) {
+      throw new Error(
+        `The answer of '${actor.name}' does not match the schema: ${
+          errors.join("; ")
+        }`,
+      );
     }
 
-    const prompt = speaker.render(this);
-    const { text, tokens, embeddings } = await generateText(prompt);
+    return { text, errors: errors.join("; ") };
+  }
 
+  /**
+   * Add the answer of an actor to the history, and finish its turn.
+   * @param actor The actor that answered.
+   * @param answer The prompt (and chat messages), the generation record and
+   * the generated answer.
+   * @param toolCalls The tools that the actor called before it answered.
+   * @param audience The addressees and the visibility of the answer.
+   * @param structured The parsed answer, if a schema was given.
+   * @returns The response of the turn.
+   */
+  private async answer<Data>(
+    actor: Actor,
+    { prompt, chat, generation, result: { text, tokens, embeddings } }:
+      & Prompt
+      & { generation: Generation; result: GenerateTextResult },
+    toolCalls: ToolCallResult[],
+    { to, visibility }: {
+      to?: (Actor | string)[];
+      visibility?: MessageVisibility;
+    },
+    structured?: { data?: Data },
+  ): Promise<TurnResponse<Data>> {
     const message = await this.buildMessage({
-      speaker,
+      speaker: actor,
       text,
       tokens,
       embeddings,
+      to,
+      visibility,
+      generation,
     });
 
-    this.history.push(message);
-    this.history.cleanEphemeral();
+    const added = await this.conclude(actor, message);
 
-    return {
+    const response: TurnResponse<Data> = {
       speaker: message.actor,
       text,
       prompt,
+      ...chat ? { chat } : {},
       tokens,
       embeddings,
+      ...added ? { message } : {},
+      ...toolCalls.length ? { toolCalls } : {},
+      ...structured,
     };
+
+    if (added) {
+      this.emit("afterTurn", response);
+    }
+
+    return response;
+  }
+
+  /**
+   * Add the message of a turn to the history, and remove the ephemeral
+   * messages. Unless a `message` listener vetoed the message, the actors form
+   * memories, the speaker reflects and the conversation is saved.
+   * @param actor The actor that took the turn.
+   * @param message The message of the turn.
+   * @returns Whether the message was added.
+   */
+  private async conclude(actor: Actor, message: Message): Promise<boolean> {
+    const added = await this.commit(message);
+    this.history.cleanEphemeral();
+
+    if (added) {
+      await this.remember();
+      await this.sync(await this.reflect(actor));
+    }
+
+    return added;
+  }
+
+  /**
+   * Get the tools that an actor can call: the tools of the conversation and
+   * the tools of the actor. The tools of the actor take precedence over tools
+   * of the conversation with the same name.
+   * @param actor The actor to get the tools of.
+   * @returns The tools.
+   */
+  getTools(actor: Actor): Tool[] {
+    const names = new Set(actor.tools.map((tool) => tool.name));
+
+    return [
+      ...this.tools.filter((tool) => !names.has(tool.name)),
+      ...actor.tools,
+    ];
+  }
+
+  /**
+   * Run the tool calls of an actor. The calls are added to the history as a
+   * message of the actor, and the result of every call as a message of the
+   * `Tool` speaker. The messages are ephemeral, unless a tool is not, and
+   * only visible to the actor.
+   * @param actor The actor that called the tools.
+   * @param tools The tools that the actor can call.
+   * @param calls The calls to run.
+   * @param signal The signal to abort the turn.
+   * @returns The calls and their outcomes.
+   */
+  private async callTools(
+    actor: Actor,
+    tools: Tool[],
+    calls: ToolCall[],
+    signal?: AbortSignal,
+  ): Promise<ToolCallResult[]> {
+    const ephemeral = (call: ToolCall) =>
+      tools.find((tool) => tool.name === call.name)?.ephemeral ?? true;
+
+    await this.commit(
+      await this.buildMessage({
+        speaker: actor,
+        text: calls.map(formatToolCall).join("\n"),
+        ephemeral: calls.every(ephemeral),
+        visibility: "private",
+      }),
+    );
+
+    const results: ToolCallResult[] = [];
+
+    for (const call of calls) {
+      const outcome = await this.callTool(actor, tools, call, signal);
+      const { name, result, error } = outcome;
+
+      await this.inject(
+        `<tool_result name="${name}">${
+          JSON.stringify(error ? { error } : result ?? null)
+        }</tool_result>`,
+        {
+          speaker: "Tool",
+          ephemeral: ephemeral(call),
+          to: [actor],
+          visibility: "whisper",
+        },
+      );
+
+      results.push(outcome);
+    }
+
+    return results;
+  }
+
+  /**
+   * Run a tool call. Calls of unknown tools, calls with invalid arguments and
+   * calls whose handler throws fail with an error message, which is fed back
+   * to the actor.
+   * @param actor The actor that called the tool.
+   * @param tools The tools that the actor can call.
+   * @param call The call to run.
+   * @param signal The signal to abort the turn.
+   * @returns The call and its outcome.
+   */
+  private async callTool(
+    actor: Actor,
+    tools: Tool[],
+    call: ToolCall,
+    signal?: AbortSignal,
+  ): Promise<ToolCallResult> {
+    const tool = tools.find((tool) => tool.name === call.name);
+
+    if (!tool) {
+      return { ...call, error: `Unknown tool '${call.name}'` };
+    }
+
+    const errors = validate(tool.parameters, call.arguments);
+
+    if (errors.length) {
+      return { ...call, error: `Invalid arguments: ${errors.join("; ")}` };
+    }
+
+    try {
+      // The arguments were validated against the parameters of the tool
+      const args = call.arguments as Record<string, unknown>;
+      const result = await tool.handler(args, {
+        conversation: this,
+        actor,
+        signal,
+      });
+
+      return { ...call, result };
+    } catch (err) {
+      if (signal?.aborted) {
+        throw err;
+      }
+
+      return {
+        ...call,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
   }
 
   /**
    * Loop the conversation. The scheduler is used to determine which actor
    * should speak next. The conversation is aborted when the signal is aborted.
+   * The signal is passed on to the turns, so that the generation of the
+   * current turn is aborted as well.
    *
    * @param signal The signal to abort the conversation.
    * @param generateText A function that generates text given a prompt.
-   * @param scheduler The scheduler to determine which actor should speak next. If
-   * no scheduler is provided, the conversation scheduler is used.
+   * @param generateChat A function that generates text given chat messages
+   * (see `turn()`).
+   * @param middleware The middleware to apply to the `generateText` calls, in
+   * addition to the middleware of the conversation.
+   * @param scheduler The scheduler to determine which actor should speak next.
+   * If no scheduler is provided, the conversation scheduler is used.
    * @returns The speaker and the response.
    */
   async *loop(
-    { signal, generateText = this.generateText, scheduler = this.scheduler }: {
+    {
+      signal,
+      generateText,
+      generateChat,
+      middleware,
+      scheduler = this.scheduler,
+    }: {
       signal: AbortSignal;
       generateText?: GenerateText;
+      generateChat?: GenerateChat;
+      middleware?: GenerateTextMiddleware[];
       scheduler?: Scheduler;
     },
   ): AsyncGenerator<TurnResponse> {
-    if (!generateText) {
-      throw new TypeError("No 'generateText' function provided");
-    }
+    this.generator(generateText, generateChat);
 
     if (scheduler.conversation !== this) {
       throw new TypeError(
@@ -403,13 +1203,161 @@ export class Conversation {
     }
 
     while (!signal.aborted) {
+      const speaker = await scheduler.getNextSpeaker();
+
+      if (signal.aborted) {
+        break;
+      }
+
       yield this.turn({
-        speaker: scheduler.getNextSpeaker(),
+        speaker,
         generateText,
+        generateChat,
+        middleware,
+        signal,
       });
     }
   }
 
+  /**
+   * Turn the conversation, streaming the response. This allows an actor to
+   * speak in the conversation while the text is being generated. The text
+   * deltas are yielded as they are generated, after which the assembled
+   * message is added to the history, and a final chunk with the response is
+   * yielded.
+   *
+   * The tokens and embeddings of the message are generated once the stream
+   * ends (if a `generateTokens` or `generateEmbeddings` function is provided).
+   * If the signal is aborted, or the consumer stops iterating, the partial
+   * text is discarded and nothing is added to the history.
+   *
+   * @param speaker The actor that is speaking, or a promise that resolves to
+   * the actor. If no speaker is provided, the scheduler is used to determine
+   * which actor should speak next.
+   * @param generateTextStream A function that generates text as a stream of
+   * text deltas given a prompt.
+   * @param signal The signal to abort the turn.
+   * @param to The actors that the answer is addressed to.
+   * @param visibility Who can see the answer (default: `"public"`).
+   * @returns The text deltas, followed by the response.
+   */
+  async *turnStream(
+    {
+      speaker,
+      generateTextStream = this.generateTextStream,
+      signal,
+      to,
+      visibility,
+    }: {
+      speaker?: Actor | Promise<Actor>;
+      generateTextStream?: GenerateTextStream;
+      signal?: AbortSignal;
+      to?: (Actor | string)[];
+      visibility?: MessageVisibility;
+    },
+  ): AsyncGenerator<TurnChunk> {
+    if (!generateTextStream) {
+      throw new TypeError("No 'generateTextStream' function provided");
+    }
+
+    const actor = await (speaker ?? this.scheduler.getNextSpeaker());
+    const rendering = await this.prompt(actor);
+    const { prompt } = rendering;
+    const start = performance.now();
+    let text = "";
+
+    for await (const delta of generateTextStream(prompt, { signal })) {
+      if (signal?.aborted) {
+        return;
+      }
+
+      text += delta;
+      yield { type: "delta", speaker: actor.name, actor, text: delta };
+    }
+
+    if (signal?.aborted) {
+      return;
+    }
+
+    const message = await this.buildMessage({
+      speaker: actor,
+      text,
+      tokens: typeof this.generateTokens === "function",
+      embeddings: typeof this.generateEmbeddings === "function",
+      to,
+      visibility,
+      generation: await this.record(
+        rendering,
+        rendering,
+        { text },
+        performance.now() - start,
+      ),
+    });
+
+    const added = await this.conclude(actor, message);
+
+    const response: TurnResponse = {
+      speaker: message.actor,
+      actor,
+      text,
+      prompt,
+      tokens: message.tokens,
+      embeddings: message.embeddings,
+      ...added ? { message } : {},
+    };
+
+    if (added) {
+      this.emit("afterTurn", response);
+    }
+
+    yield { type: "done", response };
+  }
+
+  /**
+   * Loop the conversation, streaming the responses. The scheduler is used to
+   * determine which actor should speak next. The conversation is aborted when
+   * the signal is aborted, in which case the partial text of the current turn
+   * is discarded.
+   *
+   * @param signal The signal to abort the conversation.
+   * @param generateTextStream A function that generates text as a stream of
+   * text deltas given a prompt.
+   * @param scheduler The scheduler to determine which actor should speak next.
+   * If no scheduler is provided, the conversation scheduler is used.
+   * @returns The text deltas and responses of each turn.
+   */
+  async *loopStream(
+    {
+      signal,
+      generateTextStream = this.generateTextStream,
+      scheduler = this.scheduler,
+    }: {
+      signal: AbortSignal;
+      generateTextStream?: GenerateTextStream;
+      scheduler?: Scheduler;
+    },
+  ): AsyncGenerator<TurnChunk> {
+    if (!generateTextStream) {
+      throw new TypeError("No 'generateTextStream' function provided");
+    }
+
+    if (scheduler.conversation !== this) {
+      throw new TypeError(
+        "The scheduler is not associated with this conversation.",
+      );
+    }
+
+    while (!signal.aborted) {
+      const speaker = await scheduler.getNextSpeaker();
+
+      if (signal.aborted) {
+        break;
+      }
+
+      yield* this.turnStream({ speaker, generateTextStream, signal });
+    }
+  }
+
   /**
    * Build a message. This allows an actor to build a message that can be
    * injected into the conversation. The message is used to update the history
@@ -427,19 +1375,43 @@ export class Conversation {
    * @param ephemeral Whether the message is ephemeral. By default the message
    * is not ephemeral.
    * @param feedback The feedback of the message.
+   * @param to The actors that the message is addressed to.
+   * @param replyTo The message (or the id of the message) that the message
+   * replies to.
+   * @param metadata Free-form metadata of the message.
+   * @param visibility Who can see the message (default: `"public"`).
+   * @param generation How the message was generated, if it was generated by a
+   * model.
    * @param generateTokens A function that generates tokens given a text.
    * @param generateEmbeddings A function that generates embeddings given a
    * text.
    * @returns The message.
    */
   async buildMessage(
-    { speaker, text, tokens, embeddings, ephemeral, feedback }: {
+    {
+      speaker,
+      text,
+      tokens,
+      embeddings,
+      ephemeral,
+      feedback,
+      to,
+      replyTo,
+      metadata,
+      visibility,
+      generation,
+    }: {
       speaker: Actor | string;
       text: string;
       tokens?: number[] | boolean;
       embeddings?: Embeddings | boolean;
       feedback?: [up: number, down: number];
       ephemeral?: boolean;
+      to?: (Actor | string)[];
+      replyTo?: Message | string;
+      metadata?: Record<string, unknown>;
+      visibility?: MessageVisibility;
+      generation?: Generation;
     },
     {
       generateTokens = this.generateTokens,
@@ -450,6 +1422,8 @@ export class Conversation {
     } = {},
   ): Promise<Message> {
     return {
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
       actor: typeof speaker === "string" ? speaker : speaker.name,
       text,
       tokens: ephemeral
@@ -468,14 +1442,529 @@ export class Conversation {
         : undefined,
       ephemeral: ephemeral === true,
       feedback: feedback ?? [0, 0],
+      to: to?.map((actor) => typeof actor === "string" ? actor : actor.name),
+      replyTo: typeof replyTo === "object" ? replyTo.id : replyTo,
+      metadata,
+      visibility,
+      generation,
+    };
+  }
+
+  /**
+   * Edit a message in the history (see `ConversationHistory.edit()`). If the
+   * conversation is persisted, the snapshot in the store is updated.
+   * @param id The id of the message.
+   * @param changes The changes to the message.
+   * @returns The edited message.
+   */
+  async edit(
+    id: string,
+    changes: Parameters<ConversationHistory["edit"]>[1],
+  ): Promise<Message> {
+    const message = this.history.edit(id, changes);
+    await this.persist();
+    return message;
+  }
+
+  /**
+   * Delete a message from the history. If the conversation is persisted, the
+   * snapshot in the store is updated.
+   * @param id The id of the message.
+   * @returns The deleted message.
+   */
+  async delete(id: string): Promise<Message> {
+    const message = this.history.delete(id);
+    await this.persist();
+    return message;
+  }
+
+  /**
+   * Rewind the conversation to a message. The messages after the message are
+   * removed from the history. If the conversation is persisted, the snapshot
+   * in the store is updated.
+   * @param id The id of the message to rewind to.
+   * @param inclusive Whether to remove the message itself as well (default:
+   * `false`).
+   * @returns The removed messages.
+   */
+  async rewind(
+    id: string,
+    { inclusive = false }: { inclusive?: boolean } = {},
+  ): Promise<Message[]> {
+    const messages = this.history.rewind(id, { inclusive });
+    await this.persist();
+    return messages;
+  }
+
+  /**
+   * Regenerate the last turn. The last message of an actor, and the messages
+   * after it, are removed, and the actor takes its turn again. The removed
+   * message is kept as an alternative of the new message (see
+   * `ConversationHistory.alternatives`), so the versions can be compared. If
+   * the turn fails, the removed messages are restored.
+   * @param options The options of the turn (see `turn()`). The speaker is the
+   * actor of the removed message.
+   * @returns The response of the new turn.
+   */
+  async regenerate<Data = unknown>(
+    options: Omit<Parameters<Conversation["turn"]>[0], "speaker"> = {},
+  ): Promise<TurnResponse<Data>> {
+    const previous = this.history.messages.findLast((message) =>
+      !message.ephemeral &&
+      this.actors.some((actor) => actor.name === message.actor)
+    );
+
+    if (!previous) {
+      throw new Error("There is no turn to regenerate");
+    }
+
+    const speaker = this.actors.find(({ name }) => name === previous.actor)!;
+    const alternatives = [
+      ...this.history.alternatives[previous.id] ?? [],
+      previous,
+    ];
+
+    const { summary } = this.history;
+    const saved = { ...this.history.alternatives };
+    const removed = this.history.rewind(previous.id, { inclusive: true });
+    const end = this.history.messages.length;
+    let response: TurnResponse<Data>;
+
+    try {
+      response = await this.turn<Data>({ ...options, speaker });
+    } catch (err) {
+      // Put the removed messages back, so that a failed turn loses nothing
+      this.history.messages.splice(end, Infinity, ...removed);
+      this.history.summary = summary;
+      Object.assign(this.history.alternatives, saved);
+      throw err;
+    }
+
+    if (response.message) {
+      this.history.alternatives[response.message.id] = alternatives;
+    }
+
+    await this.persist();
+    return response;
+  }
+
+  /**
+   * Fork the conversation into a branch. The branch starts with the messages
+   * of the history up to (and including) a message, and continues
+   * independently of the conversation. The messages of the shared prefix are
+   * the same objects in both conversations, the actors are copied (see
+   * `Actor.clone()`). The branch has the same options as the conversation,
+   * except for the store.
+   * @param at The id of the last message of the branch (default: the last
+   * message of the history).
+   * @param id The id of the branch. If not provided, a random identifier is
+   * generated.
+   * @param name The name of the branch (default: the name of the
+   * conversation).
+   * @param scheduler The scheduler of the branch. If not provided, the
+   * scheduler is created from the registry with the current state of the
+   * scheduler of the conversation.
+   * @param store The store to persist the branch in.
+   * @returns The branch.
+   */
+  fork(
+    { at, id, name = this.name, scheduler, store }: {
+      at?: string;
+      id?: string;
+      name?: string;
+      scheduler?: typeof Scheduler | SchedulerFactory;
+      store?: ConversationStore;
+    } = {},
+  ): Conversation {
+    const { messages, summary, alternatives } = this.history;
+    const end = at
+      ? messages.findIndex((message) => message.id === at) + 1
+      : messages.length;
+
+    if (!end && at) {
+      throw new TypeError("Message not found");
+    }
+
+    const state = this.scheduler.toJSON();
+    const branch = new Conversation(name, {
+      id,
+      actors: this.actors.map((actor) => actor.clone()),
+      generateText: this.generateText,
+      generateChat: this.generateChat,
+      generateTextStream: this.generateTextStream,
+      generateTokens: this.generateTokens,
+      tokenizer: this.tokenizer,
+      generateEmbeddings: this.generateEmbeddings,
+      scheduler: scheduler ??
+        ((conversation) => schedulers.create(conversation, state)),
+      messages: messages.slice(0, end),
+      window: this.window,
+      store,
+      middleware: this.middleware,
+      summarize: this.summarize,
+      retrieval: this.retrieval,
+      episodic: this.episodic,
+      tools: this.tools,
+      maxToolIterations: this.maxToolIterations,
+      recordPrompts: this.recordPrompts,
+    });
+
+    if (summary && summary.count <= end) {
+      branch.history.summary = { ...summary };
+    }
+
+    for (const message of branch.history.messages) {
+      if (alternatives[message.id]) {
+        branch.history.alternatives[message.id] = alternatives[message.id];
+      }
+    }
+
+    return branch;
+  }
+
+  /**
+   * Save the conversation to its store, if it is persisted.
+   */
+  private async persist(): Promise<void> {
+    if (this.store) {
+      await this.save();
+    }
+  }
+
+  /**
+   * Save the conversation to its store after a turn if the summary of the
+   * history or the actor data changed, as only messages are appended.
+   * @param reflected Whether the actor reflected during the turn.
+   */
+  private async sync(reflected: boolean): Promise<void> {
+    if (
+      this.store && (reflected || this.history.summary !== this.savedSummary)
+    ) {
+      await this.save();
+    }
+  }
+
+  /**
+   * Save a snapshot of the conversation to the store. The snapshot is saved
+   * when the first message is added, messages are appended to the store as
+   * they are added, and the snapshot is saved again when the summary or the
+   * actor data change during a turn. The conversation only has to be saved
+   * by hand when the actors, context or scheduler change otherwise.
+   */
+  async save(): Promise<void> {
+    if (!this.store) {
+      throw new Error("No 'store' provided");
+    }
+
+    await this.store.save(this.toJSON());
+    this.saved = true;
+    this.savedSummary = this.history.summary;
+  }
+
+  /**
+   * Form episodic memories of the messages that were added since memories were
+   * last formed. This is done every `every` turns. Every actor in the
+   * conversation remembers the salient messages: the messages of actors as
+   * conversation memories, and other messages (e.g. injected by the system) as
+   * event memories.
+   */
+  private async remember(): Promise<void> {
+    if (!this.episodic) {
+      return;
+    }
+
+    const { store, every = 1, salience = (message) => !message.ephemeral } =
+      this.episodic;
+
+    if (++this.turnsSinceMemory < every) {
+      return;
+    }
+
+    this.turnsSinceMemory = 0;
+
+    const messages = this.history.messages.filter((message) =>
+      !this.considered.has(message)
+    );
+
+    const records: VectorRecord[] = [];
+
+    for (const message of messages) {
+      this.considered.add(message);
+
+      if (!salience(message)) {
+        continue;
+      }
+
+      const embeddings = message.embeddings ??
+        await this.generateEmbeddings?.(message.text);
+
+      if (!embeddings) {
+        continue;
+      }
+
+      const type = this.actors.some((actor) => actor.name === message.actor)
+        ? MemoryType.Conversation
+        : MemoryType.Event;
+
+      for (const actor of this.actors) {
+        if (!ConversationHistory.isVisibleTo(message, actor.name)) {
+          continue;
+        }
+
+        // The id is derived from the message and the actor, so that a
+        // restored or forked conversation replaces the memories it formed
+        // before, rather than duplicating them
+        records.push({
+          id: `${message.id}:${actor.id}`,
+          actor: actor.id,
+          type,
+          value: `${message.actor}: ${message.text}`,
+          embeddings,
+          conversation: this.id,
+          createdAt: Date.now(),
+        });
+      }
+    }
+
+    if (records.length) {
+      await store.add(records);
+    }
+  }
+
+  /**
+   * Let an actor reflect on the conversation, if it has taken a multiple of
+   * `every` turns (see `ReflectionOptions`). A failed reflection is emitted
+   * as a `reflection` event with the error, rather than thrown.
+   * @param actor The actor that has taken a turn.
+   * @returns Whether the actor reflected.
+   */
+  private async reflect(actor: Actor): Promise<boolean> {
+    const every = actor.reflection?.every;
+
+    if (!every) {
+      return false;
+    }
+
+    const turns = this.history.messages.filter((message) =>
+      message.actor === actor.name
+    ).length;
+
+    if (turns % every !== 0) {
+      return false;
+    }
+
+    try {
+      const reflection = await actor.reflect(this);
+      this.emit("reflection", { actor, reflection });
+      return true;
+    } catch (error) {
+      this.emit("reflection", { actor, error });
+      return false;
+    }
+  }
+
+  /**
+   * Apply the middleware of the conversation, followed by the middleware of
+   * the call, to a `GenerateText` function.
+   * @param generateText The function to apply the middleware to.
+   * @param middleware The middleware of the call.
+   * @returns The function with the middleware applied.
+   */
+  private generate(
+    generateText: GenerateText,
+    middleware: GenerateTextMiddleware[] = [],
+  ): GenerateText {
+    return applyMiddleware(generateText, [...this.middleware, ...middleware]);
+  }
+
+  /**
+   * Get the function to generate answers with. A `generateText` function that
+   * is passed to the call takes precedence, then a `generateChat` function
+   * that is passed to the call, then the `generateChat` function of the
+   * conversation, and then its `generateText` function.
+   * @param generateText The `generateText` function of the call.
+   * @param generateChat The `generateChat` function of the call.
+   * @returns The function to generate answers with.
+   * @throws {TypeError} If there is no function to generate answers with.
+   */
+  private generator(
+    generateText?: GenerateText,
+    generateChat?: GenerateChat,
+  ): Generator {
+    if (generateText) {
+      return { generateText };
+    }
+
+    generateChat ??= this.generateChat;
+
+    if (generateChat) {
+      return { generateChat };
+    }
+
+    if (this.generateText) {
+      return { generateText: this.generateText };
+    }
+
+    throw new TypeError("No 'generateText' function provided");
+  }
+
+  /**
+   * Generate an answer to a prompt, applying the middleware. For chat
+   * messages, the middleware receives the prompt of the rendering and the
+   * chat messages as the `chat` option, which is passed to `generateChat`.
+   * @param generator The function to generate the answer with.
+   * @param prompt The prompt, and its chat messages.
+   * @param middleware The middleware of the call.
+   * @param signal The signal to abort the generation.
+   * @returns The generated answer.
+   */
+  private run(
+    { generateText, generateChat }: Generator,
+    { prompt, chat }: Prompt,
+    middleware: GenerateTextMiddleware[] = [],
+    signal?: AbortSignal,
+  ): Promise<GenerateTextResult> {
+    if (generateChat) {
+      return this.generate(
+        (_, { chat: messages = chat!, ...options } = {}) =>
+          generateChat(messages, options),
+        middleware,
+      )(prompt, { signal, chat });
+    }
+
+    return this.generate(generateText!, middleware)(prompt, { signal });
+  }
+
+  /**
+   * Render the prompt of the speaker of a turn. A `beforeTurn` event is
+   * emitted, so that listeners can change the prompt (or the chat messages).
+   * The entries and messages are those of the rendered prompt, also if a
+   * listener changed it.
+   * @param speaker The actor that is speaking.
+   * @param chat Whether to render the prompt as chat messages as well.
+   * @returns The prompt, and the entries and messages it was rendered from.
+   */
+  private async prompt(speaker: Actor, chat = false): Promise<Rendering> {
+    const rendering = await speaker.compose(this, { chat });
+    const event = {
+      speaker,
+      prompt: rendering.prompt,
+      ...rendering.chat ? { chat: rendering.chat } : {},
+    };
+    this.emit("beforeTurn", event);
+    return { ...rendering, prompt: event.prompt, chat: event.chat };
+  }
+
+  /**
+   * Create the generation record of a generated message.
+   * @param rendering The rendered prompt of the actor.
+   * @param prompt The prompt (and chat messages) that the text was generated
+   * from, e.g. the rendered prompt with format instructions.
+   * @param result The generated text.
+   * @param latency The time it took to generate the text, in milliseconds.
+   * @returns The generation record.
+   */
+  private async record(
+    { entries, messages }: Rendering,
+    { prompt, chat }: Prompt,
+    { text, tokens, model, usage }: GenerateTextResult,
+    latency: number,
+  ): Promise<Generation> {
+    return {
+      ...this.recordPrompts ? { prompt, ...chat ? { chat } : {} } : {},
+      hash: createHash("sha256")
+        .update(chat ? JSON.stringify(chat) : prompt)
+        .digest("hex"),
+      entries,
+      messages,
+      tokens: {
+        prompt: usage?.promptTokens ?? await this.count(
+          chat ? chat.map(({ content }) => content).join("\n\n") : prompt,
+        ),
+        completion: usage?.completionTokens ?? tokens?.length ??
+          await this.count(text),
+      },
+      latency: Math.round(latency),
+      ...model ? { model } : {},
     };
   }
 
+  /**
+   * Count the tokens of a text, an actor data entry or a message. The tokens
+   * are counted with the tokenizer of the conversation, or else with the
+   * `generateTokens` function, or else with a heuristic (see `heuristic()`).
+   * Entries and messages that have tokens are not counted again, and the
+   * counts of other entries and messages are cached until their text
+   * changes.
+   * @param value The text, entry or message to count the tokens of.
+   * @returns The number of tokens.
+   */
+  async countTokens(value: string | ActorData | Message): Promise<number> {
+    if (typeof value === "string") {
+      return await this.count(value);
+    }
+
+    if (value.tokens) {
+      return value.tokens.length;
+    }
+
+    const text = "text" in value ? value.text : value.value;
+    const cached = this.counts.get(value);
+
+    if (cached?.text === text) {
+      return cached.count;
+    }
+
+    const count = await this.count(text);
+    this.counts.set(value, { text, count });
+    return count;
+  }
+
+  /**
+   * Count the tokens of a text (see `conversation.countTokens()`).
+   * @param text The text to count the tokens of.
+   * @returns The number of tokens.
+   */
+  private async count(text: string): Promise<number> {
+    return this.tokenizer
+      ? await this.tokenizer.count(text)
+      : this.generateTokens
+      ? (await this.generateTokens(text)).length
+      : heuristic(text);
+  }
+
+  /**
+   * Add a message to the history, and append it to the store. If the
+   * conversation is not saved yet, its snapshot is saved instead. Ephemeral
+   * messages are not appended to the store, as they are removed from the
+   * history after the next turn. Messages that are vetoed by a `message`
+   * listener are not appended either.
+   * @param message The message to add.
+   * @returns Whether the message was added.
+   */
+  private async commit(message: Message): Promise<boolean> {
+    const added = this.history.push(message);
+
+    if (added && this.store && !message.ephemeral) {
+      if (this.saved) {
+        await this.store.append(this.id, message);
+      } else {
+        await this.save();
+      }
+    }
+
+    return added;
+  }
+
   /**
    * Transform the conversation to a JSON-seriazable object.
    */
-  toJSON() {
+  toJSON(): ConversationSnapshot {
     return {
+      version: SNAPSHOT_VERSION,
+      id: this.id,
+      name: this.name,
+      window: this.window,
       actors: this.actors.map((actor) => actor.toJSON()),
       history: this.history.toJSON(),
       scheduler: this.scheduler.toJSON(),
@@ -1,4 +1,11 @@
-import type { Message, PartialBy } from "../types.js";
+import { EventEmitter } from "events";
+import type {
+  ConversationHistorySnapshot,
+  Generation,
+  Message,
+  MessageInput,
+  Summary,
+} from "../types.js";
 
 /**
  * Statistics about the messages in the history.
@@ -14,22 +21,134 @@ export interface HistoryStats {
   textPercentage: number;
 }
 
+/**
+ * The events emitted by a conversation history, and their payloads.
+ */
+export interface ConversationHistoryEvents {
+  /** Emitted when a message is pushed to the history. Listeners can veto the
+   * message, in which case it is not added to the history. */
+  message: { message: Message; veto: () => void };
+  /** Emitted when feedback is added to a message. */
+  feedback: { message: Message; feedback: "up" | "down" };
+  /** Emitted when ephemeral messages are removed from the history. */
+  ephemeralCleaned: Message[];
+  /** Emitted when a message is edited. */
+  edited: { message: Message; previous: Message };
+  /** Emitted when messages are deleted from the history, or the history is
+   * rewound. */
+  deleted: Message[];
+}
+
+export interface ConversationHistory {
+  on<E extends keyof ConversationHistoryEvents>(
+    event: E,
+    listener: (payload: ConversationHistoryEvents[E]) => void,
+  ): this;
+  once<E extends keyof ConversationHistoryEvents>(
+    event: E,
+    listener: (payload: ConversationHistoryEvents[E]) => void,
+  ): this;
+  off<E extends keyof ConversationHistoryEvents>(
+    event: E,
+    listener: (payload: ConversationHistoryEvents[E]) => void,
+  ): this;
+  emit<E extends keyof ConversationHistoryEvents>(
+    event: E,
+    payload: ConversationHistoryEvents[E],
+  ): boolean;
+}
+
 /**
  * A conversation history. The history is shared between all actors in the
  * conversation, and is used to store information about the conversation.
+ *
+ * The history emits events when messages are added, when feedback is given and
+ * when ephemeral messages are removed (see `ConversationHistoryEvents`).
  */
-export class ConversationHistory {
+export class ConversationHistory extends EventEmitter {
+  /**
+   * Create a message from a message input. The id, creation time and feedback
+   * are filled in when they are not provided. A complete message is returned
+   * as-is.
+   * @param message The message input.
+   * @returns The message.
+   */
+  static createMessage(message: MessageInput): Message {
+    if (message.id && message.createdAt && message.feedback) {
+      return message as Message;
+    }
+
+    return {
+      ...message,
+      id: message.id ?? crypto.randomUUID(),
+      createdAt: message.createdAt ?? Date.now(),
+      feedback: message.feedback ?? [0, 0],
+    };
+  }
+
+  /**
+   * Whether an actor can see a message, according to the visibility of the
+   * message (see `MessageVisibility`).
+   * @param message The message.
+   * @param actor The name of the actor.
+   * @returns Whether the actor can see the message.
+   */
+  static isVisibleTo(message: Message, actor: string): boolean {
+    switch (message.visibility ?? "public") {
+      case "public":
+        return true;
+      case "whisper":
+        return message.actor === actor || !!message.to?.includes(actor);
+      case "private":
+        return message.actor === actor;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Restore a history from a snapshot created by
+   * `ConversationHistory.toJSON()`. The feedback and embeddings of the
+   * messages are restored as well.
+   * @param snapshot The snapshot to restore.
+   * @returns The restored history.
+   */
+  static fromJSON(snapshot: ConversationHistorySnapshot): ConversationHistory {
+    const history = new ConversationHistory(structuredClone(snapshot.messages));
+
+    if (snapshot.summary) {
+      history.summary = { ...snapshot.summary };
+    }
+
+    if (snapshot.alternatives) {
+      Object.assign(
+        history.alternatives,
+        structuredClone(snapshot.alternatives),
+      );
+    }
+
+    return history;
+  }
+
   /** The messages in the history. */
   readonly messages: Message[] = [];
+  /** The summary of the messages at the start of the history, if the history
+   * is summarized. */
+  summary?: Summary;
+  /** The versions of messages that were replaced by a regenerated message,
+   * by the id of the regenerated message (oldest first). */
+  readonly alternatives: Record<string, Message[]> = {};
 
   /**
    * Create a new conversation history.
    * @param messages The messages in the history.
    * @returns A new conversation history.
    */
-  constructor(messages?: Message[]) {
+  constructor(messages?: MessageInput[]) {
+    super();
+
     if (messages?.length) {
-      this.messages.push(...messages);
+      this.messages.push(...messages.map(ConversationHistory.createMessage));
     }
   }
 
@@ -37,10 +156,241 @@ export class ConversationHistory {
    * Add a new message to the history. The message is shared between all actors
    * in the conversation, and is used to store information about the
    * conversation.
+   *
+   * A `message` event is emitted before the message is added. If a listener
+   * vetoes the message, it is not added.
    * @param message The message to add.
+   * @returns Whether the message was added.
    */
-  push(message: PartialBy<Message, "feedback">): void {
-    this.messages.push({ feedback: [0, 0], ...message });
+  push(message: MessageInput): boolean {
+    const entry = ConversationHistory.createMessage(message);
+    let vetoed = false;
+
+    this.emit("message", {
+      message: entry,
+      veto: () => {
+        vetoed = true;
+      },
+    });
+
+    if (vetoed) {
+      return false;
+    }
+
+    this.messages.push(entry);
+    return true;
+  }
+
+  /**
+   * Get the messages that an actor can see (see `MessageVisibility`). This is
+   * the view of the history that is rendered in the prompt of the actor.
+   * @param actor The name of the actor.
+   * @returns The visible messages, in the order of the history.
+   */
+  getVisibleMessages(actor: string): Message[] {
+    return this.messages.filter((message) =>
+      ConversationHistory.isVisibleTo(message, actor)
+    );
+  }
+
+  /**
+   * Get a message by its id.
+   * @param id The id of the message.
+   * @returns The message, or `undefined` if it is not in the history.
+   */
+  getById(id: string): Message | undefined {
+    return this.messages.find((message) => message.id === id);
+  }
+
+  /**
+   * Get the messages that were generated by a model, i.e. the messages with a
+   * generation record.
+   * @returns The generated messages, in the order of the history.
+   */
+  getGenerated(): Message[] {
+    return this.messages.filter((message) => message.generation);
+  }
+
+  /**
+   * Get the generation record of a message: the prompt it was generated from,
+   * the actor data entries and messages in the prompt, the token counts, the
+   * latency and the model. Messages that were replaced by a regenerated
+   * message are included.
+   * @param id The id of the message.
+   * @returns The generation record, or `undefined` if the message is not in
+   * the history or was not generated.
+   */
+  getGeneration(id: string): Generation | undefined {
+    const message = this.getById(id) ??
+      Object.values(this.alternatives).flat().find((alternative) =>
+        alternative.id === id
+      );
+
+    return message?.generation;
+  }
+
+  /**
+   * Get the thread that leads to a message: the message, the message it
+   * replies to, and so on, up to the message that started the thread.
+   * @param id The id of the message.
+   * @returns The messages of the thread, oldest first, or an empty array if
+   * the message is not in the history.
+   */
+  getThread(id: string): Message[] {
+    const thread: Message[] = [];
+    const seen = new Set<string>();
+    let message = this.getById(id);
+
+    while (message && !seen.has(message.id)) {
+      seen.add(message.id);
+      thread.unshift(message);
+      message = message.replyTo ? this.getById(message.replyTo) : undefined;
+    }
+
+    return thread;
+  }
+
+  /**
+   * Get the replies to a message.
+   * @param id The id of the message.
+   * @param deep Whether to include the replies to the replies, and so on
+   * (default: `false`).
+   * @returns The replies, in the order of the history.
+   */
+  getReplies(id: string, { deep = false }: { deep?: boolean } = {}): Message[] {
+    const ids = new Set([id]);
+
+    return this.messages.filter((message) => {
+      if (!message.replyTo || !ids.has(message.replyTo)) {
+        return false;
+      }
+
+      if (deep) {
+        ids.add(message.id);
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Edit a message. The message is replaced by a copy with the changes, and
+   * keeps its id. When the text changes, the tokens and embeddings of the
+   * message are removed, as they no longer match the text.
+   *
+   * If the message is covered by the summary, the summary is discarded, so
+   * it is rebuilt from the edited history.
+   * @param id The id of the message.
+   * @param changes The changes to the message.
+   * @returns The edited message.
+   */
+  edit(
+    id: string,
+    changes: Partial<
+      Pick<
+        Message,
+        "text" | "to" | "replyTo" | "metadata" | "visibility" | "ephemeral"
+      >
+    >,
+  ): Message {
+    const index = this.indexOf(id);
+    const previous = this.messages[index];
+    const message: Message = {
+      ...previous,
+      ...changes,
+      ...typeof changes.text === "string" && changes.text !== previous.text
+        ? { tokens: undefined, embeddings: undefined }
+        : {},
+    };
+
+    this.messages[index] = message;
+    this.invalidate(index, previous);
+    this.emit("edited", { message, previous });
+
+    return message;
+  }
+
+  /**
+   * Delete a message from the history. Replies to the message are kept.
+   * @param id The id of the message.
+   * @returns The deleted message.
+   */
+  delete(id: string): Message {
+    const index = this.indexOf(id);
+    const [message] = this.messages.splice(index, 1);
+
+    this.invalidate(index, message, true);
+    delete this.alternatives[id];
+    this.emit("deleted", [message]);
+
+    return message;
+  }
+
+  /**
+   * Rewind the history to a message. The messages after the message are
+   * removed.
+   * @param id The id of the message to rewind to.
+   * @param inclusive Whether to remove the message itself as well (default:
+   * `false`).
+   * @returns The removed messages.
+   */
+  rewind(
+    id: string,
+    { inclusive = false }: { inclusive?: boolean } = {},
+  ): Message[] {
+    const index = this.indexOf(id) + (inclusive ? 0 : 1);
+    const messages = this.messages.splice(index);
+
+    if (this.summary && this.summary.count > index) {
+      this.summary = undefined;
+    }
+
+    for (const message of messages) {
+      delete this.alternatives[message.id];
+    }
+
+    if (messages.length) {
+      this.emit("deleted", messages);
+    }
+
+    return messages;
+  }
+
+  /**
+   * Get the index of a message.
+   * @param id The id of the message.
+   * @returns The index of the message.
+   * @throws {TypeError} If the message is not in the history.
+   */
+  private indexOf(id: string): number {
+    const index = this.messages.findIndex((message) => message.id === id);
+
+    if (index === -1) {
+      throw new TypeError("Message not found");
+    }
+
+    return index;
+  }
+
+  /**
+   * Update the summary after a message at an index has changed. If the
+   * message is covered by the summary, the summary no longer matches the
+   * history and is discarded. Ephemeral messages are not summarized, so
+   * removing one only shifts the summary.
+   * @param index The index of the message.
+   * @param message The message before it changed.
+   * @param removed Whether the message was removed.
+   */
+  private invalidate(index: number, message: Message, removed = false): void {
+    if (!this.summary || index >= this.summary.count) {
+      return;
+    }
+
+    if (message.ephemeral && removed) {
+      this.summary.count--;
+    } else if (!message.ephemeral) {
+      this.summary = undefined;
+    }
   }
 
   /**
@@ -97,33 +447,55 @@ export class ConversationHistory {
 
     if (messages.length) {
       for (const message of messages) {
-        this.messages.splice(this.messages.indexOf(message), 1);
+        const index = this.messages.indexOf(message);
+        this.messages.splice(index, 1);
+
+        if (this.summary && index < this.summary.count) {
+          this.summary.count--;
+        }
       }
+
+      this.emit("ephemeralCleaned", messages);
     }
   }
 
   /**
-   * Add positive feedback to a message.
+   * Whether a message is in the history, or is an alternative of a message.
+   * @param message The message to look for.
+   */
+  private includes(message: Message): boolean {
+    return this.messages.includes(message) ||
+      Object.values(this.alternatives).some((messages) =>
+        messages.includes(message)
+      );
+  }
+
+  /**
+   * Add positive feedback to a message. Messages that were replaced by a
+   * regenerated message can be rated as well.
    * @param message The message to add feedback to.
    */
   up(message: Message) {
-    if (!this.messages.includes(message)) {
+    if (!this.includes(message)) {
       throw new TypeError("Message not found");
     }
 
     message.feedback[0]++;
+    this.emit("feedback", { message, feedback: "up" });
   }
 
   /**
-   * Add negative feedback to a message.
+   * Add negative feedback to a message. Messages that were replaced by a
+   * regenerated message can be rated as well.
    * @param message The message to add feedback to.
    */
   down(message: Message) {
-    if (!this.messages.includes(message)) {
+    if (!this.includes(message)) {
       throw new TypeError("Message not found");
     }
 
     message.feedback[1]++;
+    this.emit("feedback", { message, feedback: "down" });
   }
 
   /**
@@ -143,9 +515,13 @@ export class ConversationHistory {
   /**
    * Transform the history into a JSON-serializable object.
    */
-  toJSON() {
+  toJSON(): ConversationHistorySnapshot {
     return {
       messages: this.messages,
+      summary: this.summary,
+      ...Object.keys(this.alternatives).length
+        ? { alternatives: this.alternatives }
+        : {},
     };
   }
 
@@ -154,5 +530,10 @@ export class ConversationHistory {
    */
   clear(): void {
     this.messages.length = 0;
+    this.summary = undefined;
+
+    for (const id of Object.keys(this.alternatives)) {
+      delete this.alternatives[id];
+    }
   }
 }
@@ -0,0 +1,232 @@
+import {
+  appendFile,
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+} from "fs/promises";
+import { join } from "path";
+import type { ConversationSnapshot, Message } from "../types.js";
+
+/**
+ * A conversation store is used to persist conversations. A conversation is
+ * saved as a whole using `save()`, after which new messages are appended
+ * incrementally using `append()`, so the whole snapshot does not have to be
+ * re-written on every message. Messages can only be appended to a
+ * conversation that was saved.
+ */
+export interface ConversationStore {
+  /**
+   * Save a snapshot of a conversation. Messages appended before the snapshot
+   * are replaced by the messages in the snapshot.
+   * @param snapshot The snapshot to save.
+   */
+  save(snapshot: ConversationSnapshot): Promise<void>;
+  /**
+   * Load a snapshot of a conversation, including the messages appended since
+   * the snapshot was saved.
+   * @param id The id of the conversation.
+   * @returns The snapshot, or `undefined` if the conversation is not found.
+   */
+  load(id: string): Promise<ConversationSnapshot | undefined>;
+  /**
+   * List the ids of the stored conversations.
+   */
+  list(): Promise<string[]>;
+  /**
+   * Delete a conversation from the store.
+   * @param id The id of the conversation.
+   */
+  delete(id: string): Promise<void>;
+  /**
+   * Append a message to a stored conversation.
+   * @param id The id of the conversation.
+   * @param message The message to append.
+   * @throws If the conversation was not saved.
+   */
+  append(id: string, message: Message): Promise<void>;
+}
+
+/**
+ * A conversation store that keeps the conversations in memory. This store is
+ * useful for testing, or for sharing conversations within a single process.
+ */
+export class MemoryConversationStore implements ConversationStore {
+  /** The stored snapshots and the messages appended since. */
+  private readonly entries = new Map<string, {
+    snapshot: ConversationSnapshot;
+    messages: Message[];
+  }>();
+
+  async save(snapshot: ConversationSnapshot): Promise<void> {
+    this.entries.set(snapshot.id, {
+      snapshot: structuredClone(snapshot),
+      messages: [],
+    });
+  }
+
+  async load(id: string): Promise<ConversationSnapshot | undefined> {
+    const entry = this.entries.get(id);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    const snapshot = structuredClone(entry.snapshot);
+    snapshot.history.messages.push(...structuredClone(entry.messages));
+    return snapshot;
+  }
+
+  async list(): Promise<string[]> {
+    return [...this.entries.keys()];
+  }
+
+  async delete(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  async append(id: string, message: Message): Promise<void> {
+    const entry = this.entries.get(id);
+
+    if (!entry) {
+      throw new Error(`Conversation '${id}' is not saved`);
+    }
+
+    entry.messages.push(structuredClone(message));
+  }
+}
+
+/**
+ * A line in a conversation file.
+ */
+type FileRecord =
+  | { type: "snapshot"; snapshot: ConversationSnapshot }
+  | { type: "message"; message: Message };
+
+/**
+ * A conversation store that keeps the conversations on the file system. Each
+ * conversation is stored as a JSON-lines file in the directory. The first line
+ * holds the snapshot, every following line holds an appended message. Saving
+ * a snapshot compacts the file into a single line.
+ */
+export class FileConversationStore implements ConversationStore {
+  /** The extension of the conversation files. */
+  static readonly extension = ".jsonl";
+
+  /** The directory the conversation files are stored in. */
+  readonly directory: string;
+
+  /**
+   * Create a new file conversation store.
+   * @param directory The directory to store the conversation files in. The
+   * directory is created when the first conversation is written.
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async save(snapshot: ConversationSnapshot): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(
+      this.path(snapshot.id),
+      this.serialize({ type: "snapshot", snapshot }),
+      "utf8",
+    );
+  }
+
+  async load(id: string): Promise<ConversationSnapshot | undefined> {
+    let contents: string;
+
+    try {
+      contents = await readFile(this.path(id), "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+
+      throw err;
+    }
+
+    let snapshot: ConversationSnapshot | undefined;
+
+    for (const line of contents.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      const record: FileRecord = JSON.parse(line);
+
+      if (record.type === "snapshot") {
+        snapshot = record.snapshot;
+      } else if (record.type === "message") {
+        snapshot?.history.messages.push(record.message);
+      }
+    }
+
+    return snapshot;
+  }
+
+  async list(): Promise<string[]> {
+    let files: string[];
+
+    try {
+      files = await readdir(this.directory);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+
+      throw err;
+    }
+
+    const { extension } = FileConversationStore;
+
+    return files
+      .filter((file) => file.endsWith(extension))
+      .map((file) => decodeURIComponent(file.slice(0, -extension.length)));
+  }
+
+  async delete(id: string): Promise<void> {
+    await rm(this.path(id), { force: true });
+  }
+
+  async append(id: string, message: Message): Promise<void> {
+    try {
+      await stat(this.path(id));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new Error(`Conversation '${id}' is not saved`);
+      }
+
+      throw err;
+    }
+
+    await appendFile(
+      this.path(id),
+      this.serialize({ type: "message", message }),
+      "utf8",
+    );
+  }
+
+  /**
+   * Get the path of the file of a conversation. The id is encoded so that it
+   * can not escape the directory.
+   * @param id The id of the conversation.
+   */
+  private path(id: string): string {
+    return join(
+      this.directory,
+      `${encodeURIComponent(id)}${FileConversationStore.extension}`,
+    );
+  }
+
+  /**
+   * Serialize a record into a line.
+   * @param record The record to serialize.
+   */
+  private serialize(record: FileRecord): string {
+    return `${JSON.stringify(record)}\n`;
+  }
+}
@@ -1,5 +1,20 @@
+import { default as mustache } from "mustache";
 import { Conversation } from "./Conversation.js";
 import { Actor } from "./Actor.js";
+import type { GenerateText, SchedulerSnapshot } from "../types.js";
+import { loadTemplate } from "../util.js";
+
+/**
+ * The default template for the moderator scheduler. The template is used to
+ * render the prompt that asks the model which actor should speak next.
+ */
+const MODERATOR_TEMPLATE = await loadTemplate("moderator");
+
+/**
+ * A function that creates a scheduler for a conversation. Factories can be
+ * used to create schedulers that take additional options.
+ */
+export type SchedulerFactory = (conversation: Conversation) => Scheduler;
 
 /**
  * A scheduler is used to determine which actor should speak next in a
@@ -18,16 +33,27 @@ export class Scheduler {
   }
 
   /**
-   * Get the next actor that should speak in the conversation.
+   * Get the next actor that should speak in the conversation. Schedulers may
+   * return a promise that resolves to the actor, e.g. when a model is asked
+   * which actor should speak next.
    */
-  getNextSpeaker(): Actor {
+  getNextSpeaker(): Actor | Promise<Actor> {
     throw new Error("Not implemented");
   }
 
   /**
    * Transform the scheduler into a JSON-serializable object.
    */
-  toJSON() {
+  toJSON(): SchedulerSnapshot {
+    throw new Error("Not implemented");
+  }
+
+  /**
+   * Restore the state of the scheduler from a snapshot created by
+   * `Scheduler.toJSON()`.
+   * @param snapshot The snapshot to restore.
+   */
+  restore(snapshot: SchedulerSnapshot): void {
     throw new Error("Not implemented");
   }
 }
@@ -46,10 +72,352 @@ export class RoundRobinScheduler extends Scheduler {
       .actors[this.lastIndex++ % this.conversation.actors.length];
   }
 
-  toJSON() {
+  toJSON(): SchedulerSnapshot {
     return {
-      type: "IndexScheduler",
+      type: "RoundRobinScheduler",
       lastIndex: this.lastIndex,
     };
   }
+
+  restore(snapshot: SchedulerSnapshot): void {
+    if (typeof snapshot.lastIndex === "number") {
+      this.lastIndex = snapshot.lastIndex;
+    }
+  }
 }
+
+/**
+ * A scheduler that selects a random actor in the conversation. Actors can be
+ * given a weight to make them more (or less) likely to be selected. Actors
+ * without a weight have a weight of `1`, actors with a weight of `0` are never
+ * selected.
+ */
+export class RandomScheduler extends Scheduler {
+  /** The weights of the actors, by actor name. */
+  private weights: Record<string, number>;
+  /** The function that generates a random number between 0 and 1. */
+  private readonly random: () => number;
+
+  /**
+   * Create a new random scheduler.
+   * @param conversation The conversation that the scheduler is used in.
+   * @param weights The weights of the actors, by actor name.
+   * @param random The function that generates a random number between 0
+   * (inclusive) and 1 (exclusive).
+   */
+  constructor(
+    conversation: Conversation,
+    { weights = {}, random = Math.random }: {
+      weights?: Record<string, number>;
+      random?: () => number;
+    } = {},
+  ) {
+    super(conversation);
+    this.weights = weights;
+    this.random = random;
+  }
+
+  getNextSpeaker(): Actor {
+    const { actors } = this.conversation;
+    const weights = actors.map((actor) => this.weights[actor.name] ?? 1);
+    const total = weights.reduce((a, b) => a + b, 0);
+
+    if (total <= 0) {
+      throw new Error("No actor has a positive weight");
+    }
+
+    let threshold = this.random() * total;
+
+    for (let i = 0; i < actors.length; i++) {
+      threshold -= weights[i];
+
+      if (threshold < 0) {
+        return actors[i];
+      }
+    }
+
+    return actors[weights.findLastIndex((weight) => weight > 0)];
+  }
+
+  toJSON(): SchedulerSnapshot {
+    return {
+      type: "RandomScheduler",
+      weights: { ...this.weights },
+    };
+  }
+
+  restore(snapshot: SchedulerSnapshot): void {
+    if (typeof snapshot.weights === "object" && snapshot.weights !== null) {
+      this.weights = { ...snapshot.weights as Record<string, number> };
+    }
+  }
+}
+
+/**
+ * A scheduler that selects the actor that has spoken the least in the
+ * conversation, based on the percentage of messages in the history. This
+ * throttles talkative actors. Ties are broken by selecting the actor that
+ * spoke the longest ago.
+ */
+export class LeastRecentlySpokenScheduler extends Scheduler {
+  getNextSpeaker(): Actor {
+    const { actors, history } = this.conversation;
+
+    if (!actors.length) {
+      throw new Error("The conversation has no actors");
+    }
+
+    const stats = history.getStats();
+    const lastSpoken = (actor: Actor) =>
+      history.messages.findLastIndex((message) => message.actor === actor.name);
+
+    return actors.reduce((best, actor) => {
+      const percentage = stats[actor.name]?.percentage ?? 0;
+      const bestPercentage = stats[best.name]?.percentage ?? 0;
+
+      if (percentage !== bestPercentage) {
+        return percentage < bestPercentage ? actor : best;
+      }
+
+      return lastSpoken(actor) < lastSpoken(best) ? actor : best;
+    });
+  }
+
+  toJSON(): SchedulerSnapshot {
+    return {
+      type: "LeastRecentlySpokenScheduler",
+    };
+  }
+
+  restore(snapshot: SchedulerSnapshot): void {}
+}
+
+/**
+ * A scheduler that selects the actor that is addressed in the last message,
+ * i.e. the actor whose name is mentioned first in the text. The sender of the
+ * message is never selected. If no actor is addressed, the next actor is
+ * selected in a round-robin fashion.
+ */
+export class AddresseeScheduler extends Scheduler {
+  /** The scheduler that is used when no actor is addressed. */
+  private readonly fallback: RoundRobinScheduler;
+
+  /**
+   * Create a new addressee scheduler.
+   * @param conversation The conversation that the scheduler is used in.
+   */
+  constructor(conversation: Conversation) {
+    super(conversation);
+    this.fallback = new RoundRobinScheduler(conversation);
+  }
+
+  getNextSpeaker(): Actor {
+    const message = this.conversation.history.last();
+
+    if (message) {
+      const text = message.text.toLowerCase();
+      let addressee: Actor | undefined;
+      let position = Infinity;
+
+      for (const actor of this.conversation.actors) {
+        if (actor.name === message.actor) {
+          continue;
+        }
+
+        const name = escape(actor.name.toLowerCase());
+        const index = text.search(new RegExp(`\\b${name}\\b`));
+
+        if (index !== -1 && index < position) {
+          addressee = actor;
+          position = index;
+        }
+      }
+
+      if (addressee) {
+        return addressee;
+      }
+    }
+
+    return this.fallback.getNextSpeaker();
+  }
+
+  toJSON(): SchedulerSnapshot {
+    return {
+      type: "AddresseeScheduler",
+      fallback: this.fallback.toJSON(),
+    };
+  }
+
+  restore(snapshot: SchedulerSnapshot): void {
+    if (snapshot.fallback) {
+      this.fallback.restore(snapshot.fallback as SchedulerSnapshot);
+    }
+  }
+}
+
+/**
+ * A scheduler that asks a model which actor should speak next. The model is
+ * given the messages and the participants of the conversation, and should
+ * answer with the name of a participant. If the answer does not name exactly
+ * one participant, the next actor is selected in a round-robin fashion.
+ */
+export class ModeratorScheduler extends Scheduler {
+  /** The function that generates text. */
+  private readonly generateText?: GenerateText;
+  /** The template for the moderator prompt. */
+  readonly template: string;
+  /** The scheduler that is used when the answer is invalid. */
+  private readonly fallback: RoundRobinScheduler;
+
+  /**
+   * Create a new moderator scheduler.
+   * @param conversation The conversation that the scheduler is used in.
+   * @param generateText The function that generates text. If not provided,
+   * the function of the conversation is used.
+   * @param template The template for the moderator prompt. If not provided,
+   * the default template is used.
+   */
+  constructor(
+    conversation: Conversation,
+    { generateText, template = MODERATOR_TEMPLATE }: {
+      generateText?: GenerateText;
+      template?: string;
+    } = {},
+  ) {
+    super(conversation);
+    this.generateText = generateText;
+    this.template = template;
+    this.fallback = new RoundRobinScheduler(conversation);
+  }
+
+  async getNextSpeaker(): Promise<Actor> {
+    const generateText = this.generateText ?? this.conversation.generateText;
+
+    if (!generateText) {
+      throw new TypeError("No 'generateText' function provided");
+    }
+
+    const prompt = mustache.render(this.template, {
+      conversation: this.conversation,
+      participants: this.conversation.actors,
+      messages: this.conversation.history.messages,
+    }, {}, { escape: String });
+
+    const { text } = await generateText(prompt);
+    return this.parse(text) ?? this.fallback.getNextSpeaker();
+  }
+
+  /**
+   * Parse the answer of the model. The answer is valid if it is the name of a
+   * participant, or if it mentions exactly one participant.
+   * @param text The answer of the model.
+   * @returns The actor, or `undefined` if the answer is invalid.
+   */
+  private parse(text: string): Actor | undefined {
+    const { actors } = this.conversation;
+    const answer = text.trim().split("\n")[0]
+      .replace(/^[\s"'`*_-]+|[\s"'`*_.!]+$/g, "")
+      .toLowerCase();
+
+    const exact = actors.find((actor) => actor.name.toLowerCase() === answer);
+
+    if (exact) {
+      return exact;
+    }
+
+    const mentioned = actors.filter((actor) =>
+      new RegExp(`\\b${escape(actor.name.toLowerCase())}\\b`).test(answer)
+    );
+
+    return mentioned.length === 1 ? mentioned[0] : undefined;
+  }
+
+  toJSON(): SchedulerSnapshot {
+    return {
+      type: "ModeratorScheduler",
+      fallback: this.fallback.toJSON(),
+    };
+  }
+
+  restore(snapshot: SchedulerSnapshot): void {
+    if (snapshot.fallback) {
+      this.fallback.restore(snapshot.fallback as SchedulerSnapshot);
+    }
+  }
+}
+
+/**
+ * Escape a string for use in a regular expression.
+ * @param text The text to escape.
+ */
+function escape(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * A registry of schedulers. The registry is used to find the scheduler to
+ * restore a scheduler snapshot with, by the type in the snapshot.
+ */
+export class SchedulerRegistry {
+  /** The registered schedulers, by type. */
+  private readonly schedulers = new Map<string, typeof Scheduler>();
+
+  /**
+   * Register a scheduler.
+   * @param type The type of the scheduler, as used in its snapshot.
+   * @param scheduler The scheduler.
+   */
+  register(type: string, scheduler: typeof Scheduler): void {
+    this.schedulers.set(type, scheduler);
+  }
+
+  /**
+   * Get a scheduler by type.
+   * @param type The type of the scheduler.
+   * @returns The scheduler, or `undefined` if the type is not registered.
+   */
+  get(type: string): typeof Scheduler | undefined {
+    return this.schedulers.get(type);
+  }
+
+  /**
+   * Whether a scheduler is registered for a type.
+   * @param type The type of the scheduler.
+   */
+  has(type: string): boolean {
+    return this.schedulers.has(type);
+  }
+
+  /**
+   * Create a scheduler from a snapshot. The scheduler is found by the type in
+   * the snapshot, and its state is restored from the snapshot.
+   * @param conversation The conversation that the scheduler is used in.
+   * @param snapshot The snapshot to restore.
+   * @returns The restored scheduler.
+   */
+  create(conversation: Conversation, snapshot: SchedulerSnapshot): Scheduler {
+    const scheduler = this.get(snapshot.type);
+
+    if (!scheduler) {
+      throw new TypeError(`Unknown scheduler type '${snapshot.type}'`);
+    }
+
+    const instance = new scheduler(conversation);
+    instance.restore(snapshot);
+    return instance;
+  }
+}
+
+/**
+ * The default scheduler registry, which contains the built-in schedulers.
+ */
+export const schedulers = new SchedulerRegistry();
+
+schedulers.register("RoundRobinScheduler", RoundRobinScheduler);
+schedulers.register("RandomScheduler", RandomScheduler);
+schedulers.register(
+  "LeastRecentlySpokenScheduler",
+  LeastRecentlySpokenScheduler,
+);
+schedulers.register("AddresseeScheduler", AddresseeScheduler);
+schedulers.register("ModeratorScheduler", ModeratorScheduler);
@@ -0,0 +1,327 @@
+import { default as mustache, TemplateSpans } from "mustache";
+import { loadTemplate } from "../util.js";
+
+/**
+ * The sections of the built-in templates. Every section is a partial, so it
+ * can be overridden on its own (e.g. `{{> persona}}`).
+ */
+export const SECTIONS = [
+  "instructions",
+  "context",
+  "persona",
+  "knowledge",
+  "memory",
+  "tools",
+  "summary",
+  "messages",
+] as const;
+
+/**
+ * A section of the built-in templates.
+ */
+export type Section = typeof SECTIONS[number];
+
+/**
+ * The built-in templates. `actor` is the default template of actors and
+ * `system` the default template of the system message of chat prompts. The
+ * other templates are variants for common roles.
+ */
+export const TEMPLATES = [
+  "actor",
+  "system",
+  "narrator",
+  "interviewer",
+  "debater",
+] as const;
+
+/**
+ * The fields of an actor data entry.
+ */
+const ENTRY = [
+  "name",
+  "type",
+  "value",
+  "description",
+  "priority",
+  "tokens",
+  "embeddings",
+  "keep",
+  "createdAt",
+];
+
+/**
+ * The fields of an actor.
+ */
+const ACTOR = [
+  "id",
+  "name",
+  "template",
+  "systemTemplate",
+  "partials",
+  "context",
+  "persona",
+  "knowledge",
+  "memory",
+  "reflection",
+  "tools",
+];
+
+/**
+ * The variables that are available to actor templates, and the fields of the
+ * variables that are lists or objects.
+ */
+const VARIABLES: Record<string, string[]> = {
+  name: [],
+  conversation: ["id", "name"],
+  actor: ACTOR,
+  participants: ACTOR,
+  context: ENTRY,
+  persona: ENTRY,
+  knowledge: ENTRY,
+  memory: ENTRY,
+  messages: [
+    "id",
+    "createdAt",
+    "actor",
+    "text",
+    "feedback",
+    "tokens",
+    "embeddings",
+    "ephemeral",
+    "to",
+    "replyTo",
+    "visibility",
+    "metadata",
+    "generation",
+  ],
+  summary: ["text", "count"],
+  tools: ["name", "description", "parameters"],
+};
+
+/**
+ * Parse a template.
+ * @param template The template to parse.
+ * @param name The name of the partial, if the template is a partial.
+ * @returns The parsed tokens.
+ */
+function parse(template: string, name?: string): TemplateSpans {
+  try {
+    return mustache.parse(template);
+  } catch (err) {
+    throw new Error(
+      `Invalid ${name ? `partial '${name}'` : "template"}: ${
+        (err as Error).message
+      }`,
+    );
+  }
+}
+
+/**
+ * Check that the variables, sections and partials of parsed template tokens
+ * are known. A name is resolved against the fields of the enclosing sections,
+ * innermost first, and then against the variables of the template. Names
+ * within sections whose fields are not known (`undefined`) are not checked.
+ * @param tokens The parsed tokens.
+ * @param scopes The fields of the enclosing sections, innermost last.
+ * @param partials The partials that are available.
+ * @param parents The partials that are being checked, to stop recursion.
+ */
+function check(
+  tokens: TemplateSpans,
+  scopes: (string[] | undefined)[],
+  partials: Record<string, string>,
+  parents: string[],
+): void {
+  // The index of the innermost scope that has the name, or `undefined` if a
+  // scope with unknown fields comes first
+  const resolve = (name: string) => {
+    for (let index = scopes.length - 1; index >= 0; index--) {
+      const fields = scopes[index];
+
+      if (!fields) {
+        return undefined;
+      } else if (fields.includes(name.split(".")[0])) {
+        return index;
+      }
+    }
+
+    return -1;
+  };
+
+  for (const [type, value, , , children] of tokens) {
+    if (type === ">") {
+      if (!(value in partials)) {
+        throw new Error(`Unknown partial '${value}' in template`);
+      }
+
+      if (!parents.includes(value)) {
+        check(parse(partials[value], value), scopes, partials, [
+          ...parents,
+          value,
+        ]);
+      }
+    } else if (["name", "&", "#", "^"].includes(type) && value !== ".") {
+      const index = resolve(value);
+
+      if (index === -1) {
+        throw new Error(`Unknown variable '${value}' in template`);
+      }
+
+      if (Array.isArray(children)) {
+        // Only the fields of the variables of the template are known, and a
+        // length or an inverted section has no fields
+        const fields = type === "^" || value.endsWith(".length")
+          ? []
+          : index === 0 && !value.includes(".")
+          ? VARIABLES[value]
+          : undefined;
+
+        check(children, [...scopes, fields], partials, parents);
+      }
+    }
+  }
+}
+
+/**
+ * A registry of named templates and partials. The built-in templates are made
+ * of partials, one for every section (see `SECTIONS`), so a section can be
+ * overridden without replacing the whole template, and new sections can be
+ * added as partials.
+ *
+ * Actors render their templates with the partials of their registry (the
+ * default registry `templates` unless another is given), merged with their
+ * own partials.
+ */
+export class TemplateRegistry {
+  /** The templates, by name. */
+  private readonly templates = new Map<string, string>();
+  /** The partials, by name. */
+  private readonly partials = new Map<string, string>();
+
+  /**
+   * Create a new registry.
+   * @param templates The templates to register, by name.
+   * @param partials The partials to register, by name.
+   */
+  constructor(
+    { templates = {}, partials = {} }: {
+      templates?: Record<string, string>;
+      partials?: Record<string, string>;
+    } = {},
+  ) {
+    for (const [name, template] of Object.entries(templates)) {
+      this.register(name, template);
+    }
+
+    for (const [name, partial] of Object.entries(partials)) {
+      this.registerPartial(name, partial);
+    }
+  }
+
+  /**
+   * Register a template. A template with the same name is replaced.
+   * @param name The name of the template.
+   * @param template The template.
+   * @returns The registry.
+   */
+  register(name: string, template: string): this {
+    this.templates.set(name, template);
+    return this;
+  }
+
+  /**
+   * Register a partial, to override a section of the templates or to add a
+   * new one. A partial with the same name is replaced.
+   * @param name The name of the partial.
+   * @param partial The partial.
+   * @returns The registry.
+   */
+  registerPartial(name: string, partial: string): this {
+    this.partials.set(name, partial);
+    return this;
+  }
+
+  /**
+   * Whether a template is registered.
+   * @param name The name of the template.
+   */
+  has(name: string): boolean {
+    return this.templates.has(name);
+  }
+
+  /**
+   * Get a template.
+   * @param name The name of the template.
+   * @returns The template.
+   */
+  get(name: string): string {
+    const template = this.templates.get(name);
+
+    if (template === undefined) {
+      throw new TypeError(`Unknown template '${name}'`);
+    }
+
+    return template;
+  }
+
+  /**
+   * Get the partials of the registry.
+   * @param overrides The partials that override the partials of the registry,
+   * e.g. the partials of an actor.
+   * @returns The partials, by name.
+   */
+  getPartials(overrides: Record<string, string> = {}): Record<string, string> {
+    return { ...Object.fromEntries(this.partials), ...overrides };
+  }
+
+  /**
+   * Create a copy of the registry, e.g. to override templates and partials of
+   * the default registry for some actors only.
+   * @returns The copy.
+   */
+  clone(): TemplateRegistry {
+    return new TemplateRegistry({
+      templates: Object.fromEntries(this.templates),
+      partials: Object.fromEntries(this.partials),
+    });
+  }
+
+  /**
+   * Validate an actor template: the template has to compile, and may only
+   * reference the variables of actor templates (see `Actor.render()`), their
+   * fields within sections, and the partials of the registry.
+   * @param template The template to validate.
+   * @param overrides The partials that override the partials of the registry.
+   * @throws If the template does not compile, or references an unknown
+   * variable or partial.
+   */
+  validate(template: string, overrides: Record<string, string> = {}): void {
+    check(
+      parse(template),
+      [Object.keys(VARIABLES)],
+      this.getPartials(overrides),
+      [],
+    );
+  }
+}
+
+/**
+ * The default registry, with the built-in templates (see `TEMPLATES`) and
+ * their sections (see `SECTIONS`). Register partials here to change the
+ * sections of all actors that use the default registry.
+ */
+export const templates = new TemplateRegistry({
+  templates: Object.fromEntries(
+    await Promise.all(
+      TEMPLATES.map(async (name) => [name, await loadTemplate(name)]),
+    ),
+  ),
+  partials: Object.fromEntries(
+    await Promise.all(
+      SECTIONS.map(async (name) => [
+        name,
+        await loadTemplate(`partials/${name}`),
+      ]),
+    ),
+  ),
+});
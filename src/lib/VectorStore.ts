@@ -0,0 +1,136 @@
+import type { Embeddings } from "../types.js";
+import { similarity } from "../util.js";
+
+/**
+ * A record in a vector store. A record holds a memory of an actor, and the
+ * embeddings that are used to recall it.
+ */
+export interface VectorRecord {
+  /** The unique identifier of the record. */
+  id: string;
+  /** The id of the actor that the memory belongs to. */
+  actor: string;
+  /** The type of the memory, e.g. `MemoryType.Event`. */
+  type: string;
+  /** The text of the memory. */
+  value: string;
+  /** The embeddings of the memory. */
+  embeddings: Embeddings;
+  /** The id of the conversation that the memory was formed in. */
+  conversation?: string;
+  /** The time the memory was formed, in milliseconds since the epoch. */
+  createdAt: number;
+}
+
+/**
+ * A filter for the records in a vector store. Only records that match all
+ * properties of the filter are returned.
+ */
+export type VectorFilter = Partial<
+  Pick<VectorRecord, "actor" | "type" | "conversation">
+>;
+
+/**
+ * A record that matches a query, and its similarity to the query.
+ */
+export interface VectorMatch {
+  /** The record. */
+  record: VectorRecord;
+  /** The similarity of the record to the query. */
+  score: number;
+}
+
+/**
+ * A vector store is used to store memories, and to recall them by their
+ * similarity to a query.
+ */
+export interface VectorStore {
+  /**
+   * Add records to the store. Records with an existing id are replaced.
+   * @param records The records to add.
+   */
+  add(records: VectorRecord[]): Promise<void>;
+  /**
+   * Find the records that are most similar to the query.
+   * @param embeddings The embeddings of the query.
+   * @param k The maximum number of records to return.
+   * @param filter The filter to apply to the records.
+   * @returns The matching records, most similar first.
+   */
+  query(
+    embeddings: Embeddings,
+    options?: { k?: number; filter?: VectorFilter },
+  ): Promise<VectorMatch[]>;
+  /**
+   * Delete records from the store.
+   * @param ids The ids of the records to delete.
+   */
+  delete(ids: string[]): Promise<void>;
+}
+
+/**
+ * A vector store that keeps the records in memory. Queries are answered by
+ * comparing the query to every record (brute force), which is fine for small
+ * to medium numbers of memories.
+ */
+export class MemoryVectorStore implements VectorStore {
+  /** The records in the store, by id. */
+  private readonly records = new Map<string, VectorRecord>();
+
+  /**
+   * Create a new in-memory vector store.
+   * @param records The records to bootstrap the store with.
+   */
+  constructor(records: VectorRecord[] = []) {
+    for (const record of records) {
+      this.records.set(record.id, record);
+    }
+  }
+
+  /** The number of records in the store. */
+  get size(): number {
+    return this.records.size;
+  }
+
+  async add(records: VectorRecord[]): Promise<void> {
+    for (const record of records) {
+      this.records.set(record.id, record);
+    }
+  }
+
+  async query(
+    embeddings: Embeddings,
+    { k = 5, filter = {} }: { k?: number; filter?: VectorFilter } = {},
+  ): Promise<VectorMatch[]> {
+    const matches: VectorMatch[] = [];
+
+    for (const record of this.records.values()) {
+      const matchesFilter = Object.entries(filter).every(([key, value]) =>
+        typeof value === "undefined" ||
+        record[key as keyof VectorFilter] === value
+      );
+
+      if (matchesFilter) {
+        const score = similarity(embeddings, record.embeddings);
+        matches.push({ record, score });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.records.delete(id);
+    }
+  }
+
+  /**
+   * Transform the store into a JSON-serializable object.
+   */
+  toJSON() {
+    return {
+      records: [...this.records.values()],
+    };
+  }
+}
@@ -0,0 +1,259 @@
+import { createHash } from "crypto";
+import type {
+  ChatMessage,
+  GenerateText,
+  GenerateTextOptions,
+  GenerateTextResult,
+} from "./types.js";
+
+/**
+ * A middleware wraps a `GenerateText` function. The middleware receives the
+ * next function in the chain, and returns a function that calls it. This
+ * allows middleware to change the prompt or the result, retry failed calls,
+ * and so on.
+ */
+export type GenerateTextMiddleware = (next: GenerateText) => GenerateText;
+
+/**
+ * Apply middleware to a `GenerateText` function. The first middleware is the
+ * outermost, i.e. it is called first and receives the result last.
+ * @param generateText The function to apply the middleware to.
+ * @param middleware The middleware to apply.
+ * @returns The function with the middleware applied.
+ */
+export function applyMiddleware(
+  generateText: GenerateText,
+  middleware: GenerateTextMiddleware[],
+): GenerateText {
+  return middleware.reduceRight((next, wrap) => wrap(next), generateText);
+}
+
+/**
+ * Wait for a number of milliseconds. The wait is aborted when the signal is
+ * aborted.
+ * @param ms The number of milliseconds to wait.
+ * @param signal The signal to abort the wait.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Retry failed calls with exponential backoff. The delay before the n-th retry
+ * is `delay * factor ^ (n - 1)`, capped at `maxDelay`. No retries are made
+ * once the signal of the call is aborted.
+ * @param retries The maximum number of retries (default: `3`).
+ * @param delay The delay before the first retry in milliseconds (default:
+ * `1000`).
+ * @param factor The factor to multiply the delay with after each retry
+ * (default: `2`).
+ * @param maxDelay The maximum delay in milliseconds (default: `30000`).
+ * @param shouldRetry A function that determines whether an error should be
+ * retried. By default all errors are retried.
+ */
+export function retry(
+  {
+    retries = 3,
+    delay = 1000,
+    factor = 2,
+    maxDelay = 30000,
+    shouldRetry = () => true,
+  }: {
+    retries?: number;
+    delay?: number;
+    factor?: number;
+    maxDelay?: number;
+    shouldRetry?: (error: unknown) => boolean;
+  } = {},
+): GenerateTextMiddleware {
+  return (next) => async (prompt, options) => {
+    for (let attempt = 0;; attempt++) {
+      try {
+        return await next(prompt, options);
+      } catch (err) {
+        if (
+          attempt >= retries || options?.signal?.aborted || !shouldRetry(err)
+        ) {
+          throw err;
+        }
+
+        await sleep(
+          Math.min(delay * Math.pow(factor, attempt), maxDelay),
+          options?.signal,
+        );
+      }
+    }
+  };
+}
+
+/**
+ * Abort calls that take longer than a number of milliseconds. The signal that
+ * is passed to the next function is aborted when the time runs out, or when
+ * the signal of the call is aborted.
+ * @param ms The maximum duration of a call in milliseconds.
+ */
+export function timeout(ms: number): GenerateTextMiddleware {
+  return (next) => (prompt, options) => {
+    const controller = new AbortController();
+    const error = new Error(`Text generation timed out after ${ms}ms`);
+    const onAbort = () => controller.abort(options?.signal?.reason);
+
+    if (options?.signal?.aborted) {
+      onAbort();
+    } else {
+      options?.signal?.addEventListener("abort", onAbort, { once: true });
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    return Promise.race([
+      next(prompt, { ...options, signal: controller.signal }),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort(error);
+          reject(error);
+        }, ms);
+      }),
+    ]).finally(() => {
+      clearTimeout(timer);
+      options?.signal?.removeEventListener("abort", onAbort);
+    });
+  };
+}
+
+/**
+ * A store for cached results. A `Map` can be used as a store.
+ */
+export interface GenerateTextCache {
+  get(key: string): GenerateTextResult | undefined;
+  set(key: string, value: GenerateTextResult): unknown;
+}
+
+/**
+ * Cache the results of calls. The results are keyed by the SHA-256 hash of the
+ * prompt (or of the chat messages as JSON), so the same prompt always returns
+ * the same result.
+ * @param store The store to cache the results in (default: a new `Map`).
+ */
+export function cache(
+  { store = new Map() }: { store?: GenerateTextCache } = {},
+): GenerateTextMiddleware {
+  return (next) => async (prompt, options) => {
+    const key = createHash("sha256")
+      .update(options?.chat ? JSON.stringify(options.chat) : prompt)
+      .digest("hex");
+    const cached = store.get(key);
+
+    if (cached) {
+      return cached;
+    }
+
+    const result = await next(prompt, options);
+    store.set(key, result);
+    return result;
+  };
+}
+
+/**
+ * Limit the number of calls in an interval. Calls that exceed the limit wait
+ * until the oldest call in the interval has expired.
+ * @param requests The maximum number of calls in the interval.
+ * @param interval The interval in milliseconds (default: `1000`).
+ */
+export function rateLimit(
+  { requests, interval = 1000 }: { requests: number; interval?: number },
+): GenerateTextMiddleware {
+  if (requests < 1) {
+    throw new TypeError("The number of requests must be at least 1.");
+  }
+
+  const calls: number[] = [];
+  let queue = Promise.resolve();
+
+  const acquire = async (signal?: AbortSignal) => {
+    while (calls.length >= requests) {
+      const wait = calls[0] + interval - Date.now();
+
+      if (wait > 0) {
+        await sleep(wait, signal);
+      }
+
+      while (calls.length && calls[0] + interval <= Date.now()) {
+        calls.shift();
+      }
+    }
+
+    calls.push(Date.now());
+  };
+
+  return (next) => async (prompt, options) => {
+    const slot = queue.then(() => acquire(options?.signal));
+    queue = slot.catch(() => {});
+    await slot;
+
+    return next(prompt, options);
+  };
+}
+
+/**
+ * An entry that is logged by the logging middleware. The chat messages are
+ * logged with the prompt of chat calls.
+ */
+export type GenerateTextLogEntry =
+  & { prompt: string; chat?: ChatMessage[] }
+  & (
+    | { type: "request" }
+    | { type: "response"; result: GenerateTextResult; duration: number }
+    | { type: "error"; error: unknown; duration: number }
+  );
+
+/**
+ * Log the requests and responses of calls.
+ * @param log The function to log the entries with. By default, requests and
+ * responses are logged with `console.debug`, and errors with `console.error`.
+ */
+export function logging(
+  {
+    log = (entry) =>
+      entry.type === "error" ? console.error(entry) : console.debug(entry),
+  }: { log?: (entry: GenerateTextLogEntry) => void } = {},
+): GenerateTextMiddleware {
+  return (next) => async (prompt, options?: GenerateTextOptions) => {
+    const start = Date.now();
+    const request = {
+      prompt,
+      ...options?.chat ? { chat: options.chat } : {},
+    };
+    log({ type: "request", ...request });
+
+    try {
+      const result = await next(prompt, options);
+      log({
+        type: "response",
+        ...request,
+        result,
+        duration: Date.now() - start,
+      });
+      return result;
+    } catch (error) {
+      log({ type: "error", ...request, error, duration: Date.now() - start });
+      throw error;
+    }
+  };
+}
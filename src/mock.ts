@@ -0,0 +1,439 @@
+import { createHash } from "crypto";
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import type { Provider } from "./providers.js";
+import type { ChatMessage, GenerateTextResult } from "./types.js";
+
+/**
+ * The options of the mock provider.
+ */
+export interface MockOptions {
+  /** The texts to answer with, in turn. After the last text, the texts are
+   * repeated. */
+  responses?: string[];
+  /** A function that answers a prompt. Takes precedence over `responses`. */
+  respond?: (prompt: string, index: number) => string | GenerateTextResult;
+  /** The model name that is reported with the results (default: `mock`). */
+  model?: string;
+  /** The number of dimensions of the embeddings (default: `8`). */
+  dimensions?: number;
+}
+
+/**
+ * A deterministic provider. Every result depends only on its input and the
+ * number of earlier calls, so conversations can be tested without a model.
+ */
+export interface MockProvider extends Required<Provider> {
+  /** The prompts that text was generated for, in order. */
+  readonly prompts: string[];
+}
+
+/**
+ * Hash a text into a number of bytes.
+ * @param text The text to hash.
+ */
+function digest(text: string): Buffer {
+  return createHash("sha256").update(text).digest();
+}
+
+/**
+ * Split a text into tokens. Words and punctuation marks are tokens.
+ * @param text The text to split.
+ */
+function split(text: string): string[] {
+  return text.match(/\w+|[^\w\s]/g) ?? [];
+}
+
+/**
+ * Get the prompt of chat messages: the contents of the messages.
+ * @param messages The messages.
+ * @param system The separate system message, if any.
+ */
+function prompt(messages: { content: string }[], system?: string): string {
+  return [
+    ...system ? [system] : [],
+    ...messages.map(({ content }) => content),
+  ].join("\n\n");
+}
+
+/**
+ * Create a deterministic provider for tests. Unless `responses` or `respond`
+ * are given, a prompt is answered with a text derived from its hash, so the
+ * same prompt always gets the same answer. Chat messages are answered as the
+ * prompt that joins their contents.
+ *
+ * Tokens are the words and punctuation marks of a text, mapped to numbers by
+ * their hash. Embeddings are derived from the hash of the text, so equal
+ * texts have equal embeddings.
+ * @param options The options of the provider.
+ * @returns The provider.
+ */
+export function mock(
+  { responses, respond, model = "mock", dimensions = 8 }: MockOptions = {},
+): MockProvider {
+  const prompts: string[] = [];
+
+  const generateTokens = async (text: string) =>
+    split(text).map((token) => digest(token).readUInt16BE(0));
+
+  const answer = async (prompt: string): Promise<GenerateTextResult> => {
+    const index = prompts.push(prompt) - 1;
+    const response = respond?.(prompt, index) ??
+      responses?.[index % responses.length] ??
+      `Response ${digest(prompt).toString("hex").slice(0, 8)}`;
+    const result = typeof response === "string" ? { text: response } : response;
+
+    return {
+      model,
+      usage: {
+        promptTokens: (await generateTokens(prompt)).length,
+        completionTokens: (await generateTokens(result.text)).length,
+      },
+      ...result,
+    };
+  };
+
+  async function* generateTextStream(prompt: string): AsyncGenerator<string> {
+    const { text } = await answer(prompt);
+
+    for (const delta of text.match(/\S+\s*|\s+/g) ?? []) {
+      yield delta;
+    }
+  }
+
+  const generateEmbeddings = async (text: string) => {
+    const bytes = digest(text);
+    const vector = Array.from(
+      { length: dimensions },
+      (_, i) => bytes[i % bytes.length] / 127.5 - 1,
+    );
+    const norm = Math.hypot(...vector) || 1;
+    return [vector.map((value) => value / norm)];
+  };
+
+  return {
+    prompts,
+    generateText: answer,
+    generateChat: (messages: ChatMessage[]) => answer(prompt(messages)),
+    generateTextStream,
+    generateTokens,
+    generateEmbeddings,
+  };
+}
+
+/**
+ * The body of a request to the mock server. The fields that the server reads
+ * are typed, the other parameters of the request are kept as they are.
+ */
+export interface MockRequestBody {
+  /** The model of the request. */
+  model?: string;
+  /** The chat messages of a chat request. */
+  messages?: ChatMessage[];
+  /** The system message of an Ollama or Anthropic-style request. */
+  system?: string;
+  /** The prompt of an Ollama or llama.cpp request. */
+  prompt?: string;
+  /** The text of a llama.cpp tokenize or embedding request. */
+  content?: string;
+  /** The texts of an OpenAI-compatible embeddings request. */
+  input?: string | string[];
+  /** Whether to stream the response. */
+  stream?: boolean;
+  /** The parameters of an Ollama request. */
+  options?: Record<string, unknown>;
+  /** The other parameters of the request, e.g. `temperature`. */
+  [parameter: string]: unknown;
+}
+
+/**
+ * A request that was received by the mock server.
+ */
+export interface MockRequest {
+  /** The path of the request. */
+  path: string;
+  /** The headers of the request. */
+  headers: Record<string, string | string[] | undefined>;
+  /** The parsed JSON body of the request. */
+  body: MockRequestBody;
+}
+
+/**
+ * A running mock server.
+ */
+export interface MockServer {
+  /** The URL of the server, e.g. `http://127.0.0.1:54321`. */
+  readonly url: string;
+  /** The requests that the server received, in order. */
+  readonly requests: MockRequest[];
+  /** The provider that answers the requests. */
+  readonly provider: MockProvider;
+  /** Stop the server. */
+  close(): Promise<void>;
+}
+
+/**
+ * Read the JSON body of a request.
+ * @param request The request to read.
+ */
+async function read(
+  request: IncomingMessage,
+): Promise<MockRequestBody> {
+  let body = "";
+
+  for await (const chunk of request) {
+    body += chunk;
+  }
+
+  return body ? JSON.parse(body) : {};
+}
+
+/**
+ * Send a JSON response.
+ * @param response The response to send.
+ * @param status The status of the response.
+ * @param body The body of the response.
+ */
+function send(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { "content-type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Stream the deltas of a text.
+ * @param response The response to stream to.
+ * @param deltas The deltas to stream.
+ * @param format Whether to stream server-sent events or newline-delimited
+ * JSON.
+ * @param encode A function that encodes a delta (or `undefined` for the last
+ * event) as the events of the API.
+ */
+async function stream(
+  response: ServerResponse,
+  deltas: AsyncIterable<string>,
+  format: "sse" | "ndjson",
+  encode: (delta?: string) => unknown[],
+) {
+  response.writeHead(200, {
+    "content-type": format === "sse"
+      ? "text/event-stream"
+      : "application/x-ndjson",
+  });
+
+  const write = (events: unknown[]) => {
+    for (const event of events) {
+      response.write(
+        format === "sse"
+          ? `data: ${
+            typeof event === "string" ? event : JSON.stringify(event)
+          }\n\n`
+          : `${JSON.stringify(event)}\n`,
+      );
+    }
+  };
+
+  for await (const delta of deltas) {
+    write(encode(delta));
+  }
+
+  write(encode());
+  response.end();
+}
+
+/**
+ * Start an in-process HTTP server that imitates the APIs of the providers, so
+ * the provider adapters (and whole conversations) can be tested offline. The
+ * requests are answered by a mock provider (see `mock()`). The server
+ * implements:
+ *
+ * - OpenAI-compatible APIs: `POST /v1/chat/completions` and
+ *   `POST /v1/embeddings`.
+ * - Ollama: `POST /api/generate`, `POST /api/chat` and `POST /api/embeddings`.
+ * - llama.cpp: `POST /completion`, `POST /tokenize` and `POST /embedding`.
+ * - Anthropic-style APIs: `POST /v1/messages`.
+ *
+ * Other requests are answered with `404`.
+ * @param options The options of the mock provider that answers the requests.
+ * @param port The port to listen on (default: a free port).
+ * @returns The running server.
+ */
+export async function createMockServer(
+  { port = 0, ...options }: MockOptions & { port?: number } = {},
+): Promise<MockServer> {
+  const provider = mock(options);
+  const requests: MockRequest[] = [];
+  const { generateText, generateTextStream, generateTokens } = provider;
+
+  const routes: Record<
+    string,
+    (body: MockRequestBody, response: ServerResponse) => Promise<void>
+  > = {
+    "/v1/chat/completions": async (body, response) => {
+      const text = prompt(body.messages ?? []);
+
+      if (body.stream) {
+        return stream(response, generateTextStream(text), "sse", (delta) =>
+          delta === undefined
+            ? [{ choices: [{ delta: {}, finish_reason: "stop" }] }, "[DONE]"]
+            : [{ choices: [{ delta: { content: delta } }] }]);
+      }
+
+      const { text: content, model, usage } = await generateText(text);
+      send(response, 200, {
+        object: "chat.completion",
+        model,
+        choices: [{
+          index: 0,
+          message: { role: "assistant", content },
+          finish_reason: "stop",
+        }],
+        usage: {
+          prompt_tokens: usage?.promptTokens,
+          completion_tokens: usage?.completionTokens,
+        },
+      });
+    },
+    "/v1/embeddings": async (body, response) => {
+      const inputs = [body.input ?? []].flat();
+      const data = [];
+
+      for (const [index, input] of inputs.entries()) {
+        const [embedding] = await provider.generateEmbeddings(input);
+        data.push({ object: "embedding", index, embedding });
+      }
+
+      send(response, 200, { object: "list", model: body.model, data });
+    },
+    "/api/generate": async (body, response) => {
+      const text = prompt([{ content: body.prompt ?? "" }], body.system);
+
+      if (body.stream !== false) {
+        return stream(
+          response,
+          generateTextStream(text),
+          "ndjson",
+          (delta) => [{
+            model: body.model,
+            response: delta ?? "",
+            done: delta === undefined,
+          }],
+        );
+      }
+
+      const { text: content, usage } = await generateText(text);
+      send(response, 200, {
+        model: body.model,
+        response: content,
+        done: true,
+        prompt_eval_count: usage?.promptTokens,
+        eval_count: usage?.completionTokens,
+      });
+    },
+    "/api/chat": async (body, response) => {
+      const { text: content, usage } = await generateText(
+        prompt(body.messages ?? []),
+      );
+      send(response, 200, {
+        model: body.model,
+        message: { role: "assistant", content },
+        done: true,
+        prompt_eval_count: usage?.promptTokens,
+        eval_count: usage?.completionTokens,
+      });
+    },
+    "/api/embeddings": async (body, response) => {
+      const [embedding] = await provider.generateEmbeddings(body.prompt ?? "");
+      send(response, 200, { embedding });
+    },
+    "/completion": async (body, response) => {
+      if (body.stream) {
+        return stream(
+          response,
+          generateTextStream(body.prompt ?? ""),
+          "sse",
+          (delta) => [{ content: delta ?? "", stop: delta === undefined }],
+        );
+      }
+
+      const { text, usage } = await generateText(body.prompt ?? "");
+      send(response, 200, {
+        content: text,
+        stop: true,
+        tokens_evaluated: usage?.promptTokens,
+        tokens_predicted: usage?.completionTokens,
+      });
+    },
+    "/tokenize": async (body, response) => {
+      send(response, 200, { tokens: await generateTokens(body.content ?? "") });
+    },
+    "/embedding": async (body, response) => {
+      const [embedding] = await provider.generateEmbeddings(body.content ?? "");
+      send(response, 200, { embedding });
+    },
+    "/v1/messages": async (body, response) => {
+      const text = prompt(body.messages ?? [], body.system);
+
+      if (body.stream) {
+        return stream(response, generateTextStream(text), "sse", (delta) =>
+          delta === undefined ? [{ type: "message_stop" }] : [{
+            type: "content_block_delta",
+            index: 0,
+            delta: { type: "text_delta", text: delta },
+          }]);
+      }
+
+      const { text: content, model, usage } = await generateText(text);
+      send(response, 200, {
+        type: "message",
+        role: "assistant",
+        model,
+        content: [{ type: "text", text: content }],
+        stop_reason: "end_turn",
+        usage: {
+          input_tokens: usage?.promptTokens,
+          output_tokens: usage?.completionTokens,
+        },
+      });
+    },
+  };
+
+  const server = createServer(async (request, response) => {
+    const path = new URL(request.url ?? "/", "http://localhost").pathname;
+    const route = request.method === "POST" ? routes[path] : undefined;
+
+    try {
+      const body = await read(request);
+      requests.push({ path, headers: request.headers, body });
+
+      if (!route) {
+        return send(response, 404, { error: `Not found: ${path}` });
+      }
+
+      await route(body, response);
+    } catch (err) {
+      if (!response.headersSent) {
+        send(response, 500, { error: (err as Error).message });
+      } else {
+        response.end();
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => resolve());
+  });
+
+  const { port: listening } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${listening}`,
+    requests,
+    provider,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((err) => err ? reject(err) : resolve());
+      }),
+  };
+}
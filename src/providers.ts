@@ -0,0 +1,686 @@
+import type {
+  ChatMessage,
+  GenerateChat,
+  GenerateEmbeddings,
+  GenerateText,
+  GenerateTextOptions,
+  GenerateTextResult,
+  GenerateTextStream,
+  GenerateTokens,
+} from "./types.js";
+
+/**
+ * The generation functions of a model provider. A provider can be spread into
+ * the options of a conversation. Since providers have a `generateChat`
+ * function, the prompts of the conversation are then rendered as chat
+ * messages (see `actor.renderChat()`):
+ *
+ * ```ts
+ * const conversation = new Conversation("Chat", {
+ *   actors,
+ *   ...openai({ model: "gpt-4o-mini", apiKey }),
+ * });
+ * ```
+ */
+export interface Provider {
+  /** The function that generates text. */
+  generateText: GenerateText;
+  /** The function that generates text given chat messages. */
+  generateChat: GenerateChat;
+  /** The function that generates text as a stream of text deltas. */
+  generateTextStream: GenerateTextStream;
+  /** The function that generates tokens, if the provider can tokenize. */
+  generateTokens?: GenerateTokens;
+  /** The function that generates embeddings, if an embedding model is
+   * configured. */
+  generateEmbeddings?: GenerateEmbeddings;
+}
+
+/**
+ * The options of a provider that is reached over HTTP.
+ */
+export interface ProviderOptions {
+  /** The base URL of the API. */
+  baseURL?: string;
+  /** The model to generate text with. */
+  model: string;
+  /** The API key, sent as a bearer token (or as `x-api-key` for Anthropic). */
+  apiKey?: string;
+  /** Additional headers of every request. */
+  headers?: Record<string, string>;
+  /** The system message that is sent with every prompt. */
+  system?: string;
+  /** Additional parameters of every generation request, e.g. `temperature`.
+   * The parameters are sent as they are, so they have to use the names of the
+   * API. */
+  parameters?: Record<string, unknown>;
+  /** The `fetch` function to make requests with (default: the global
+   * `fetch`). */
+  fetch?: typeof fetch;
+}
+
+/**
+ * An error response of an API. The status is set on the error, so it can be
+ * used to decide whether to retry (see `retry()`).
+ */
+type ResponseError = Error & { status: number };
+
+/**
+ * Send a JSON request to an API.
+ * @param options The options of the provider.
+ * @param path The path of the endpoint, relative to the base URL.
+ * @param body The body of the request.
+ * @param signal The signal to abort the request.
+ * @returns The response.
+ * @throws {Error} If the API responds with an error status. The error has a
+ * `status` property.
+ */
+async function post(
+  { baseURL, headers, fetch: request = fetch }: ProviderOptions,
+  path: string,
+  body: unknown,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const url = `${baseURL!.replace(/\/+$/, "")}${path}`;
+  const response = await request(url, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const { status } = response;
+    const text = await response.text();
+    const error = new Error(
+      `Request to ${url} failed with status ${status}: ${text}`,
+    ) as ResponseError;
+    error.status = status;
+    throw error;
+  }
+
+  return response;
+}
+
+/**
+ * Read the lines of a response body as they arrive.
+ * @param response The response to read.
+ */
+async function* lines(response: Response): AsyncGenerator<string> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const parts = buffer.split(/\r?\n/);
+      buffer = parts.pop()!;
+
+      for (const part of parts) {
+        yield part;
+      }
+    }
+
+    buffer += decoder.decode();
+
+    if (buffer) {
+      yield buffer;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read the JSON events of a server-sent event stream.
+ * @param response The response to read.
+ */
+async function* events<T>(response: Response): AsyncGenerator<T> {
+  for await (const line of lines(response)) {
+    if (!line.startsWith("data:")) {
+      continue;
+    }
+
+    const data = line.slice(5).trim();
+
+    if (data === "[DONE]") {
+      return;
+    }
+
+    yield JSON.parse(data);
+  }
+}
+
+/**
+ * Read the JSON objects of a newline-delimited JSON stream.
+ * @param response The response to read.
+ */
+async function* objects<T>(response: Response): AsyncGenerator<T> {
+  for await (const line of lines(response)) {
+    if (line.trim()) {
+      yield JSON.parse(line);
+    }
+  }
+}
+
+/**
+ * Prepend the system message of a provider to chat messages.
+ * @param messages The chat messages.
+ * @param system The system message of the provider, if any.
+ */
+function withSystem(messages: ChatMessage[], system?: string): ChatMessage[] {
+  return system ? [{ role: "system", content: system }, ...messages] : messages;
+}
+
+/**
+ * Get the chat messages of a prompt: the prompt as a user message.
+ * @param prompt The prompt.
+ */
+function user(prompt: string): ChatMessage[] {
+  return [{ role: "user", content: prompt }];
+}
+
+/**
+ * The body of an OpenAI-compatible chat completion, as far as it is read.
+ */
+interface Completion {
+  model?: string;
+  choices: {
+    message: {
+      content?: string | null;
+      tool_calls?: { function: { name: string; arguments: unknown } }[];
+    };
+  }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Parse the result of an OpenAI-compatible chat completion.
+ * @param completion The body of the response.
+ */
+function parseCompletion(
+  { model, choices: [{ message }], usage }: Completion,
+): GenerateTextResult {
+  const toolCalls = (message.tool_calls ?? []).map(({ function: call }) => ({
+    name: call.name,
+    arguments: parseArguments(call.arguments),
+  }));
+
+  return {
+    text: message.content ?? "",
+    model,
+    ...usage
+      ? {
+        usage: {
+          promptTokens: usage.prompt_tokens,
+          completionTokens: usage.completion_tokens,
+        },
+      }
+      : {},
+    ...toolCalls.length ? { toolCalls } : {},
+  };
+}
+
+/**
+ * Parse the arguments of a tool call, which some APIs send as a JSON string.
+ * @param args The arguments.
+ */
+function parseArguments(args: unknown): Record<string, unknown> {
+  if (typeof args !== "string") {
+    return (args ?? {}) as Record<string, unknown>;
+  }
+
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Create a provider for an OpenAI-compatible chat completions API, e.g.
+ * OpenAI, Azure OpenAI, vLLM, LM Studio or the OpenAI-compatible endpoints of
+ * Ollama and llama.cpp. Prompts are sent as a user message.
+ * @param options The options of the provider.
+ * @param baseURL The base URL of the API (default:
+ * `https://api.openai.com/v1`).
+ * @param embeddingModel The model to generate embeddings with. If not given,
+ * the provider does not generate embeddings.
+ * @returns The provider.
+ */
+export function openai(
+  {
+    baseURL = "https://api.openai.com/v1",
+    embeddingModel,
+    ...options
+  }: ProviderOptions & { embeddingModel?: string },
+): Provider {
+  const config: ProviderOptions = {
+    ...options,
+    baseURL,
+    headers: {
+      ...options.apiKey ? { authorization: `Bearer ${options.apiKey}` } : {},
+      ...options.headers,
+    },
+  };
+
+  const body = (messages: ChatMessage[], stream: boolean) => ({
+    model: options.model,
+    messages: withSystem(messages, options.system),
+    ...options.parameters,
+    stream,
+  });
+
+  const generateChat = async (
+    messages: ChatMessage[],
+    { signal }: GenerateTextOptions = {},
+  ): Promise<GenerateTextResult> => {
+    const response = await post(
+      config,
+      "/chat/completions",
+      body(messages, false),
+      signal,
+    );
+    return parseCompletion(await response.json());
+  };
+
+  async function* generateTextStream(
+    prompt: string,
+    { signal }: GenerateTextOptions = {},
+  ): AsyncGenerator<string> {
+    const response = await post(
+      config,
+      "/chat/completions",
+      body(user(prompt), true),
+      signal,
+    );
+
+    for await (
+      const { choices } of events<{
+        choices: { delta?: { content?: string } }[];
+      }>(response)
+    ) {
+      const content = choices[0]?.delta?.content;
+
+      if (content) {
+        yield content;
+      }
+    }
+  }
+
+  const generateEmbeddings = async (text: string) => {
+    const response = await post(config, "/embeddings", {
+      model: embeddingModel,
+      input: text,
+    });
+    const { data } = await response.json();
+    return data.map(({ embedding }: { embedding: number[] }) => embedding);
+  };
+
+  return {
+    generateText: (prompt, options) => generateChat(user(prompt), options),
+    generateChat,
+    generateTextStream,
+    ...embeddingModel ? { generateEmbeddings } : {},
+  };
+}
+
+/**
+ * Create a provider for an Ollama server. Prompts are sent to the generate
+ * endpoint, which wraps them in the prompt template of the model, and chat
+ * messages to the chat endpoint.
+ * @param options The options of the provider. The parameters are sent as the
+ * `options` of the request, e.g. `{ temperature: 0.7, num_ctx: 4096 }`.
+ * @param baseURL The base URL of the server (default:
+ * `http://localhost:11434`).
+ * @param embeddingModel The model to generate embeddings with. If not given,
+ * the provider does not generate embeddings.
+ * @returns The provider.
+ */
+export function ollama(
+  {
+    baseURL = "http://localhost:11434",
+    embeddingModel,
+    ...options
+  }: ProviderOptions & { embeddingModel?: string },
+): Provider {
+  const config: ProviderOptions = { ...options, baseURL };
+
+  const body = (prompt: string, stream: boolean) => ({
+    model: options.model,
+    prompt,
+    ...options.system ? { system: options.system } : {},
+    ...options.parameters ? { options: options.parameters } : {},
+    stream,
+  });
+
+  const parse = (
+    result: { model?: string; prompt_eval_count?: number; eval_count?: number },
+    text: string,
+  ): GenerateTextResult => ({
+    text,
+    model: result.model,
+    usage: {
+      promptTokens: result.prompt_eval_count,
+      completionTokens: result.eval_count,
+    },
+  });
+
+  const generateText = async (
+    prompt: string,
+    { signal }: GenerateTextOptions = {},
+  ): Promise<GenerateTextResult> => {
+    const response = await post(
+      config,
+      "/api/generate",
+      body(prompt, false),
+      signal,
+    );
+    const result = await response.json();
+    return parse(result, result.response);
+  };
+
+  const generateChat = async (
+    messages: ChatMessage[],
+    { signal }: GenerateTextOptions = {},
+  ): Promise<GenerateTextResult> => {
+    const response = await post(config, "/api/chat", {
+      model: options.model,
+      messages: withSystem(messages, options.system),
+      ...options.parameters ? { options: options.parameters } : {},
+      stream: false,
+    }, signal);
+    const result = await response.json();
+    return parse(result, result.message.content);
+  };
+
+  async function* generateTextStream(
+    prompt: string,
+    { signal }: GenerateTextOptions = {},
+  ): AsyncGenerator<string> {
+    const response = await post(
+      config,
+      "/api/generate",
+      body(prompt, true),
+      signal,
+    );
+
+    for await (const { response: text } of objects<{ response?: string }>(
+      response,
+    )) {
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  const generateEmbeddings = async (text: string) => {
+    const response = await post(config, "/api/embeddings", {
+      model: embeddingModel,
+      prompt: text,
+    });
+    const { embedding } = await response.json();
+    return [embedding];
+  };
+
+  return {
+    generateText,
+    generateChat,
+    generateTextStream,
+    ...embeddingModel ? { generateEmbeddings } : {},
+  };
+}
+
+/**
+ * Create a provider for a llama.cpp server. Prompts are completed as they
+ * are, using the `/completion` endpoint, and chat messages are sent to the
+ * OpenAI-compatible chat completions endpoint. The server serves a single
+ * model, so the model name is only used to identify the generated messages.
+ * @param options The options of the provider. The parameters are sent with the
+ * request, e.g. `{ n_predict: 256, temperature: 0.7 }`.
+ * @param baseURL The base URL of the server (default: `http://localhost:8080`).
+ * @param tokenize Whether to count tokens with the tokenizer of the server
+ * (default: `false`).
+ * @param embeddings Whether to generate embeddings with the server (default:
+ * `false`). The server has to be started with `--embedding`.
+ * @returns The provider.
+ */
+export function llamacpp(
+  {
+    baseURL = "http://localhost:8080",
+    tokenize = false,
+    embeddings = false,
+    ...options
+  }: ProviderOptions & { tokenize?: boolean; embeddings?: boolean },
+): Provider {
+  const config: ProviderOptions = {
+    ...options,
+    baseURL,
+    headers: {
+      ...options.apiKey ? { authorization: `Bearer ${options.apiKey}` } : {},
+      ...options.headers,
+    },
+  };
+
+  const body = (prompt: string, stream: boolean) => ({
+    prompt: options.system ? `${options.system}\n\n${prompt}` : prompt,
+    ...options.parameters,
+    stream,
+  });
+
+  const generateText = async (
+    prompt: string,
+    { signal }: GenerateTextOptions = {},
+  ): Promise<GenerateTextResult> => {
+    const response = await post(
+      config,
+      "/completion",
+      body(prompt, false),
+      signal,
+    );
+    const result = await response.json();
+
+    return {
+      text: result.content,
+      model: options.model,
+      usage: {
+        promptTokens: result.tokens_evaluated,
+        completionTokens: result.tokens_predicted,
+      },
+    };
+  };
+
+  const generateChat = async (
+    messages: ChatMessage[],
+    { signal }: GenerateTextOptions = {},
+  ): Promise<GenerateTextResult> => {
+    const response = await post(config, "/v1/chat/completions", {
+      model: options.model,
+      messages: withSystem(messages, options.system),
+      ...options.parameters,
+      stream: false,
+    }, signal);
+    return parseCompletion(await response.json());
+  };
+
+  async function* generateTextStream(
+    prompt: string,
+    { signal }: GenerateTextOptions = {},
+  ): AsyncGenerator<string> {
+    const response = await post(
+      config,
+      "/completion",
+      body(prompt, true),
+      signal,
+    );
+
+    for await (const { content } of events<{ content?: string }>(response)) {
+      if (content) {
+        yield content;
+      }
+    }
+  }
+
+  const generateTokens = async (text: string) => {
+    const response = await post(config, "/tokenize", { content: text });
+    const { tokens } = await response.json();
+    return tokens;
+  };
+
+  const generateEmbeddings = async (text: string) => {
+    const response = await post(config, "/embedding", { content: text });
+    const { embedding } = await response.json();
+    return [embedding];
+  };
+
+  return {
+    generateText,
+    generateChat,
+    generateTextStream,
+    ...tokenize ? { generateTokens } : {},
+    ...embeddings ? { generateEmbeddings } : {},
+  };
+}
+
+/**
+ * Create a provider for an Anthropic-style messages API. Prompts are sent as a
+ * user message. The API takes the system message separately, so the system
+ * messages of chat messages are joined into it, and consecutive messages of
+ * the same role are joined, as the roles have to alternate. The messages have
+ * to start with a user message, so one is prepended if the first message is
+ * an assistant message. The API does not generate embeddings.
+ * @param options The options of the provider.
+ * @param baseURL The base URL of the API (default:
+ * `https://api.anthropic.com`).
+ * @param maxTokens The maximum number of tokens to generate (default:
+ * `1024`).
+ * @param version The version of the API (default: `2023-06-01`).
+ * @returns The provider.
+ */
+export function anthropic(
+  {
+    baseURL = "https://api.anthropic.com",
+    maxTokens = 1024,
+    version = "2023-06-01",
+    ...options
+  }: ProviderOptions & { maxTokens?: number; version?: string },
+): Provider {
+  const config: ProviderOptions = {
+    ...options,
+    baseURL,
+    headers: {
+      "anthropic-version": version,
+      ...options.apiKey ? { "x-api-key": options.apiKey } : {},
+      ...options.headers,
+    },
+  };
+
+  const body = (messages: ChatMessage[], stream: boolean) => {
+    const system = withSystem(messages, options.system)
+      .filter(({ role }) => role === "system")
+      .map(({ content }) => content);
+    const turns: ChatMessage[] = [];
+
+    for (const message of messages) {
+      const last = turns[turns.length - 1];
+
+      if (message.role === "system") {
+        continue;
+      } else if (last?.role === message.role) {
+        last.content += `\n\n${message.content}`;
+      } else {
+        turns.push({ ...message });
+      }
+    }
+
+    if (turns[0]?.role === "assistant") {
+      turns.unshift({ role: "user", content: "Start the conversation." });
+    }
+
+    return {
+      model: options.model,
+      max_tokens: maxTokens,
+      ...system.length ? { system: system.join("\n\n") } : {},
+      messages: turns,
+      ...options.parameters,
+      stream,
+    };
+  };
+
+  const generateChat = async (
+    messages: ChatMessage[],
+    { signal }: GenerateTextOptions = {},
+  ): Promise<GenerateTextResult> => {
+    const response = await post(
+      config,
+      "/v1/messages",
+      body(messages, false),
+      signal,
+    );
+    const { model, content, usage } = await response.json();
+    const blocks = content as {
+      type: string;
+      text?: string;
+      name?: string;
+      input?: unknown;
+    }[];
+    const toolCalls = blocks
+      .filter(({ type }) => type === "tool_use")
+      .map(({ name, input }) => ({
+        name: name!,
+        arguments: parseArguments(input),
+      }));
+
+    return {
+      text: blocks
+        .filter(({ type }) => type === "text")
+        .map(({ text }) => text)
+        .join(""),
+      model,
+      usage: {
+        promptTokens: usage?.input_tokens,
+        completionTokens: usage?.output_tokens,
+      },
+      ...toolCalls.length ? { toolCalls } : {},
+    };
+  };
+
+  async function* generateTextStream(
+    prompt: string,
+    { signal }: GenerateTextOptions = {},
+  ): AsyncGenerator<string> {
+    const response = await post(
+      config,
+      "/v1/messages",
+      body(user(prompt), true),
+      signal,
+    );
+
+    for await (
+      const event of events<{
+        type: string;
+        delta?: { type: string; text?: string };
+      }>(response)
+    ) {
+      if (
+        event.type === "content_block_delta" &&
+        event.delta?.type === "text_delta" && event.delta.text
+      ) {
+        yield event.delta.text;
+      }
+    }
+  }
+
+  return {
+    generateText: (prompt, options) => generateChat(user(prompt), options),
+    generateChat,
+    generateTextStream,
+  };
+}
@@ -0,0 +1,201 @@
+import { parseJSON } from "./util.js";
+
+/**
+ * A JSON schema. Only the subset of JSON schema that is needed to describe the
+ * arguments of tools and the output of turns is supported: `type`, `enum`,
+ * `const`, `properties`, `required`, `additionalProperties`, `items`,
+ * `anyOf`, `oneOf` and the numeric, string and array bounds.
+ */
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * The types of a JSON schema.
+ */
+export type JSONSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+/**
+ * Get the JSON schema type of a value.
+ * @param value The value to get the type of
+ */
+function typeOf(value: unknown): JSONSchemaType | undefined {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  if (typeof value === "string") return "string";
+  if (typeof value === "boolean") return "boolean";
+  if (typeof value === "object") return "object";
+  return undefined;
+}
+
+/**
+ * Whether two JSON values are equal.
+ * @param a The first value
+ * @param b The second value
+ */
+function equals(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Validate a value against a JSON schema.
+ * @param schema The schema to validate against
+ * @param value The value to validate
+ * @param path The path of the value, used in the error messages
+ * @returns The validation errors, or an empty array if the value is valid
+ */
+export function validate(
+  schema: JSONSchema,
+  value: unknown,
+  path = "$",
+): string[] {
+  const errors: string[] = [];
+  const type = typeOf(value);
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = types.some((expected) =>
+      expected === type || (expected === "number" && type === "integer")
+    );
+
+    if (!matches) {
+      return [`${path} must be of type ${types.join(" or ")}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => equals(option, value))) {
+    const options = schema.enum.map((option) => JSON.stringify(option));
+    errors.push(`${path} must be one of ${options.join(", ")}`);
+  }
+
+  if ("const" in schema && !equals(schema.const, value)) {
+    errors.push(`${path} must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.anyOf && !schema.anyOf.some((s) => !validate(s, value).length)) {
+    errors.push(`${path} must match at least one of the schemas`);
+  }
+
+  if (
+    schema.oneOf &&
+    schema.oneOf.filter((s) => !validate(s, value).length).length !== 1
+  ) {
+    errors.push(`${path} must match exactly one of the schemas`);
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${path} must be at least ${schema.minimum}`);
+    }
+
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${path} must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    const { minLength, maxLength } = schema;
+
+    if (typeof minLength === "number" && value.length < minLength) {
+      errors.push(`${path} must be at least ${minLength} characters`);
+    }
+
+    if (typeof maxLength === "number" && value.length > maxLength) {
+      errors.push(`${path} must be at most ${maxLength} characters`);
+    }
+
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} must match the pattern ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} items`);
+    }
+
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path} must have at most ${schema.maxItems} items`);
+    }
+
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validate(schema.items!, item, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (type === "object") {
+    const object = value as Record<string, unknown>;
+
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+
+    for (const [key, item] of Object.entries(object)) {
+      const property = schema.properties?.[key];
+
+      if (property) {
+        errors.push(...validate(property, item, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validate(schema.additionalProperties, item, `${path}.${key}`),
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse the JSON in a generated text, and validate it against a JSON schema.
+ * @param schema The schema to validate against
+ * @param text The text to parse
+ * @returns The parsed value, and the parse or validation errors (an empty
+ * array if the value is valid)
+ */
+export function parse<T = unknown>(
+  schema: JSONSchema,
+  text: string,
+): { data?: T; errors: string[] } {
+  let data: T;
+
+  try {
+    data = parseJSON<T>(text);
+  } catch (err) {
+    return { errors: [(err as Error).message] };
+  }
+
+  return { data, errors: validate(schema, data) };
+}
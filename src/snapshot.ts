@@ -0,0 +1,173 @@
+import { createHash } from "crypto";
+import type { ConversationSnapshot } from "./types.js";
+
+/**
+ * The current version of the conversation snapshot schema. The version is
+ * increased whenever the shape of `Conversation.toJSON()` changes in a way
+ * that older snapshots can not be loaded as-is.
+ */
+export const SNAPSHOT_VERSION = 3;
+
+/**
+ * A snapshot of any version, as parsed from JSON.
+ */
+type VersionedSnapshot = Record<string, unknown>;
+
+/**
+ * A function that upgrades a snapshot from one version to the next.
+ */
+type Migration = (snapshot: VersionedSnapshot) => VersionedSnapshot;
+
+/**
+ * Narrow a value to an object.
+ * @param value The value to narrow.
+ * @returns The value if it is an object, or `undefined`.
+ */
+function object(value: unknown): VersionedSnapshot | undefined {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? value as VersionedSnapshot
+    : undefined;
+}
+
+/**
+ * Add the hash of the prompt to the generation records of messages that have
+ * none.
+ * @param messages The messages of a snapshot.
+ * @returns The messages with hashed generation records.
+ */
+function hash(messages: unknown): unknown {
+  if (!Array.isArray(messages)) {
+    return messages;
+  }
+
+  return messages.map((value: unknown) => {
+    const message = object(value);
+    const generation = object(message?.generation);
+
+    if (!generation || typeof generation.hash === "string") {
+      return value;
+    }
+
+    const { prompt = "", chat } = generation;
+
+    return {
+      ...message,
+      generation: {
+        ...generation,
+        hash: createHash("sha256")
+          .update(chat ? JSON.stringify(chat) : String(prompt))
+          .digest("hex"),
+      },
+    };
+  });
+}
+
+/**
+ * The migrations of the snapshot schema. The key is the version that the
+ * migration upgrades from, the migration returns a snapshot of the next
+ * version.
+ */
+const migrations: Record<number, Migration> = {
+  /**
+   * Version 0 is the unversioned snapshot, which has no id, name or window and
+   * named the round-robin scheduler `IndexScheduler`.
+   */
+  0: (snapshot) => {
+    const scheduler = object(snapshot.scheduler);
+
+    return {
+      ...snapshot,
+      version: 1,
+      id: snapshot.id ?? crypto.randomUUID(),
+      name: snapshot.name ?? "",
+      scheduler: scheduler?.type === "IndexScheduler"
+        ? { ...scheduler, type: "RoundRobinScheduler" }
+        : snapshot.scheduler,
+    };
+  },
+  /**
+   * Version 1 messages have no id or creation time. The creation time of the
+   * messages is unknown, so the time of the upgrade is used.
+   */
+  1: (snapshot) => {
+    const createdAt = Date.now();
+    const history = object(snapshot.history);
+    const messages = history && Array.isArray(history.messages)
+      ? history.messages
+      : [];
+
+    return {
+      ...snapshot,
+      version: 2,
+      history: {
+        ...history,
+        messages: messages.map((message: unknown) => ({
+          id: crypto.randomUUID(),
+          createdAt,
+          ...object(message),
+        })),
+      },
+    };
+  },
+  /**
+   * Version 2 generation records may have no hash of the prompt. The hash is
+   * computed from the recorded prompt (or chat messages).
+   */
+  2: (snapshot) => {
+    const history = object(snapshot.history);
+    const alternatives = object(history?.alternatives);
+
+    return {
+      ...snapshot,
+      version: 3,
+      history: history && {
+        ...history,
+        messages: hash(history.messages),
+        ...alternatives
+          ? {
+            alternatives: Object.fromEntries(
+              Object.entries(alternatives).map((
+                [id, messages],
+              ) => [id, hash(messages)]),
+            ),
+          }
+          : {},
+      },
+    };
+  },
+};
+
+/**
+ * Upgrade a conversation snapshot to the current version of the schema.
+ * Snapshots without a version are treated as version 0.
+ * @param value The snapshot to upgrade.
+ * @returns The upgraded snapshot.
+ */
+export function upgradeSnapshot(value: unknown): ConversationSnapshot {
+  let snapshot = object(value);
+
+  if (!snapshot) {
+    throw new TypeError("The snapshot must be an object");
+  }
+
+  let version = typeof snapshot.version === "number" ? snapshot.version : 0;
+
+  if (version > SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot version ${version} (latest is ${SNAPSHOT_VERSION})`,
+    );
+  }
+
+  while (version < SNAPSHOT_VERSION) {
+    const migrate = migrations[version];
+
+    if (!migrate) {
+      throw new Error(`No migration for snapshot version ${version}`);
+    }
+
+    snapshot = migrate(snapshot);
+    version = snapshot.version as number;
+  }
+
+  return snapshot as unknown as ConversationSnapshot;
+}
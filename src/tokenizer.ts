@@ -0,0 +1,190 @@
+import { readFile } from "fs/promises";
+import type { Tokenizer } from "./types.js";
+
+/**
+ * The pattern that splits texts into pieces before they are encoded, as used
+ * by the `cl100k_base` vocabulary. Pieces are words with their leading space,
+ * numbers of up to three digits, punctuation and whitespace.
+ */
+export const CL100K_PATTERN =
+  /'(?:[sdmtSDMT]|[lL][lL]|[vV][eE]|[rR][eE])|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+/**
+ * The options of a BPE tokenizer.
+ */
+export interface BPETokenizerOptions {
+  /** The global pattern that splits texts into pieces before they are
+   * encoded (default: `CL100K_PATTERN`). */
+  pattern?: RegExp;
+}
+
+/**
+ * The maximum number of pieces whose tokens are cached.
+ */
+const CACHE_SIZE = 10_000;
+
+/**
+ * A byte-level BPE (byte pair encoding) tokenizer, as used by GPT models. The
+ * tokenizer runs offline, with a vocabulary that maps byte sequences to their
+ * ranks. Texts are split into pieces (see `BPETokenizerOptions.pattern`),
+ * and the bytes of every piece are merged pair by pair, lowest rank first,
+ * until no pair is in the vocabulary. The tokens are the ranks of the merged
+ * byte sequences.
+ *
+ * The vocabulary has to contain every single byte, so that every text can be
+ * encoded.
+ */
+export class BPETokenizer implements Tokenizer {
+  /**
+   * Load a tokenizer from a vocabulary file in the `tiktoken` format: one byte
+   * sequence per line, encoded as base64, followed by its rank (e.g.
+   * `cl100k_base.tiktoken`).
+   * @param path The path of the vocabulary file.
+   * @param options The options of the tokenizer.
+   * @returns The tokenizer.
+   */
+  static async load(
+    path: string | URL,
+    options: BPETokenizerOptions = {},
+  ): Promise<BPETokenizer> {
+    const ranks: [Uint8Array, number][] = [];
+
+    for (const line of (await readFile(path, "utf8")).split("\n")) {
+      const [bytes, rank] = line.trim().split(/\s+/);
+
+      if (bytes && rank) {
+        ranks.push([Buffer.from(bytes, "base64"), Number(rank)]);
+      }
+    }
+
+    return new BPETokenizer(ranks, options);
+  }
+
+  /** The ranks of the byte sequences, by their bytes as a latin1 string. */
+  private readonly ranks = new Map<string, number>();
+  /** The byte sequences of the ranks. */
+  private readonly bytes = new Map<number, Buffer>();
+  /** The pattern that splits texts into pieces. */
+  private readonly pattern: RegExp;
+  /** The tokens of the pieces that were encoded recently. */
+  private readonly cache = new Map<string, number[]>();
+
+  /**
+   * Create a new tokenizer.
+   * @param ranks The byte sequences of the vocabulary and their ranks.
+   * @param pattern The pattern that splits texts into pieces.
+   */
+  constructor(
+    ranks: Iterable<[bytes: Uint8Array, rank: number]>,
+    { pattern = CL100K_PATTERN }: BPETokenizerOptions = {},
+  ) {
+    for (const [bytes, rank] of ranks) {
+      const buffer = Buffer.from(bytes);
+      this.ranks.set(buffer.toString("latin1"), rank);
+      this.bytes.set(rank, buffer);
+    }
+
+    for (let byte = 0; byte < 256; byte++) {
+      if (!this.ranks.has(String.fromCharCode(byte))) {
+        throw new Error(
+          `The vocabulary has no token for the byte 0x${
+            byte.toString(16).padStart(2, "0")
+          }`,
+        );
+      }
+    }
+
+    this.pattern = pattern;
+  }
+
+  /**
+   * Count the tokens of a text.
+   * @param text The text to count the tokens of.
+   * @returns The number of tokens.
+   */
+  count(text: string): number {
+    return this.encode(text).length;
+  }
+
+  /**
+   * Encode a text into tokens.
+   * @param text The text to encode.
+   * @returns The tokens.
+   */
+  encode(text: string): number[] {
+    const tokens: number[] = [];
+
+    for (const [piece] of text.matchAll(this.pattern)) {
+      let encoded = this.cache.get(piece);
+
+      if (!encoded) {
+        encoded = this.merge(Buffer.from(piece, "utf8").toString("latin1"));
+
+        if (this.cache.size >= CACHE_SIZE) {
+          this.cache.clear();
+        }
+
+        this.cache.set(piece, encoded);
+      }
+
+      tokens.push(...encoded);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Decode tokens into a text.
+   * @param tokens The tokens to decode.
+   * @returns The text.
+   */
+  decode(tokens: number[]): string {
+    return Buffer.concat(tokens.map((token) => {
+      const bytes = this.bytes.get(token);
+
+      if (!bytes) {
+        throw new TypeError(`Unknown token ${token}`);
+      }
+
+      return bytes;
+    })).toString("utf8");
+  }
+
+  /**
+   * Merge the bytes of a piece into tokens. The adjacent pair with the lowest
+   * rank is merged until no pair is in the vocabulary.
+   * @param piece The bytes of the piece, as a latin1 string.
+   * @returns The tokens of the piece.
+   */
+  private merge(piece: string): number[] {
+    const rank = this.ranks.get(piece);
+
+    if (rank !== undefined) {
+      return [rank];
+    }
+
+    const parts = [...piece];
+
+    while (parts.length > 1) {
+      let best = -1;
+      let lowest = Infinity;
+
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.ranks.get(parts[i] + parts[i + 1]);
+
+        if (rank !== undefined && rank < lowest) {
+          best = i;
+          lowest = rank;
+        }
+      }
+
+      if (best === -1) {
+        break;
+      }
+
+      parts.splice(best, 2, parts[best] + parts[best + 1]);
+    }
+
+    return parts.map((part) => this.ranks.get(part)!);
+  }
+}
@@ -1,4 +1,7 @@
 import type { Actor } from "./lib/Actor.js";
+import type { Conversation } from "./lib/Conversation.js";
+import type { VectorStore } from "./lib/VectorStore.js";
+import type { JSONSchema } from "./schema.js";
 
 /**
  * The data of an actor. The data is used to store information about the actor.
@@ -23,6 +26,9 @@ export interface ActorData<Data = string> {
   embeddings?: Embeddings;
   /** Whether to keep the data entry when truncating the context window. */
   keep?: boolean;
+  /** When the data entry was created, as a timestamp in milliseconds. The
+   * priority of memories decays over time (see `WindowDecay`). */
+  createdAt?: number;
 }
 
 /**
@@ -69,14 +75,73 @@ export interface GenerateTextResult {
   tokens?: number[];
   /** The embeddings of the text that the model generated. */
   embeddings?: Embeddings;
+  /** The tools that the model called. Models with native tool calling can
+   * return the calls here, otherwise the calls are parsed from the text. */
+  toolCalls?: ToolCall[];
+  /** The identifier of the model that generated the text. */
+  model?: string;
+  /** The number of tokens that the model used. */
+  usage?: { promptTokens?: number; completionTokens?: number };
+}
+
+/**
+ * The options of a text generation call.
+ */
+export interface GenerateTextOptions {
+  /** The signal to abort the generation. */
+  signal?: AbortSignal;
+  /** The chat messages that are generated from, if the call is made with a
+   * `GenerateChat` function. Middleware then receives the prompt with the same
+   * actor data and messages, and can change the chat messages here. */
+  chat?: ChatMessage[];
 }
 
 /**
  * A function that generates text given a prompt.
  * @param prompt The prompt to generate text from.
+ * @param options The options of the call.
  * @returns The generated text with optional embeddings.
  */
-export type GenerateText = (prompt: string) => Promise<GenerateTextResult>;
+export type GenerateText = (
+  prompt: string,
+  options?: GenerateTextOptions,
+) => Promise<GenerateTextResult>;
+
+/**
+ * A message of a chat prompt, for models that take role-tagged messages
+ * instead of a single prompt.
+ */
+export interface ChatMessage {
+  /** The role of the message: the instructions (`system`), the messages of
+   * the other participants (`user`) or the messages of the actor itself
+   * (`assistant`). */
+  role: "system" | "user" | "assistant";
+  /** The content of the message. */
+  content: string;
+}
+
+/**
+ * A function that generates text given chat messages.
+ * @param messages The messages to generate text from.
+ * @param options The options of the generation.
+ * @returns The generated text.
+ */
+export type GenerateChat = (
+  messages: ChatMessage[],
+  options?: GenerateTextOptions,
+) => Promise<GenerateTextResult>;
+
+/**
+ * A function that generates text given a prompt, streaming the text as it is
+ * generated.
+ * @param prompt The prompt to generate text from.
+ * @param options The options of the call.
+ * @returns The generated text deltas.
+ */
+export type GenerateTextStream = (
+  prompt: string,
+  options?: GenerateTextOptions,
+) => AsyncIterable<string>;
 
 /**
  * A function that generates tokens given a prompt.
@@ -85,6 +150,33 @@ export type GenerateText = (prompt: string) => Promise<GenerateTextResult>;
  */
 export type GenerateTokens = (prompt: string) => Promise<number[]>;
 
+/**
+ * A tokenizer, which counts the tokens of texts, and encodes and decodes them.
+ * The methods may return their results directly or as a promise, so remote
+ * tokenizers can be used as well (see `BPETokenizer` for an offline
+ * tokenizer).
+ */
+export interface Tokenizer {
+  /**
+   * Count the tokens of a text.
+   * @param text The text to count the tokens of.
+   * @returns The number of tokens.
+   */
+  count(text: string): number | Promise<number>;
+  /**
+   * Encode a text into tokens.
+   * @param text The text to encode.
+   * @returns The tokens.
+   */
+  encode(text: string): number[] | Promise<number[]>;
+  /**
+   * Decode tokens into a text.
+   * @param tokens The tokens to decode.
+   * @returns The text.
+   */
+  decode(tokens: number[]): string | Promise<string>;
+}
+
 /**
  * A function that generates embeddings given a prompt. Embeddings are used to
  * determine the similarity between messages.
@@ -98,6 +190,10 @@ export type GenerateEmbeddings = (prompt: string) => Promise<Embeddings>;
  * in a conversation. Messages are immutable.
  */
 export interface Message {
+  /** The unique identifier of the message. */
+  readonly id: string;
+  /** The time the message was created, in milliseconds since the epoch. */
+  readonly createdAt: number;
   /** The actor that sent the message. */
   readonly actor: string;
   /** The text of the message. */
@@ -110,13 +206,174 @@ export interface Message {
   readonly embeddings?: Embeddings;
   /** Whether the message is ephemeral. Ephemeral messages are removed from the history after a turn. */
   readonly ephemeral?: boolean;
+  /** The names of the actors that the message is addressed to. */
+  readonly to?: string[];
+  /** The id of the message that the message replies to. */
+  readonly replyTo?: string;
+  /** Who can see the message (default: `"public"`, see
+   * `MessageVisibility`). */
+  readonly visibility?: MessageVisibility;
+  /** Free-form metadata of the message. */
+  readonly metadata?: Record<string, unknown>;
+  /** How the message was generated, if it was generated by a model. */
+  readonly generation?: Generation;
+}
+
+/**
+ * A reference to an actor data entry.
+ */
+export interface ActorDataReference {
+  /** The section of the entry: `context`, `persona`, `knowledge` or
+   * `memory`. */
+  section: string;
+  /** The type of the entry. */
+  type: string;
+  /** The name of the entry. */
+  name: string;
+}
+
+/**
+ * The rendered prompt of an actor, and what it was rendered from.
+ */
+export interface Rendering {
+  /** The rendered prompt. */
+  prompt: string;
+  /** The rendered chat messages, if the prompt was rendered as chat messages
+   * as well (see `actor.renderChat()`). */
+  chat?: ChatMessage[];
+  /** The actor data entries that were included in the prompt. */
+  entries: ActorDataReference[];
+  /** The ids of the messages that were included in the prompt. */
+  messages: string[];
+}
+
+/**
+ * A number of tokens, estimated with a heuristic and measured with a
+ * tokenizer.
+ */
+export interface TokenCount {
+  /** The number of tokens that the heuristic estimates (see
+   * `heuristic()`). */
+  estimated: number;
+  /** The number of tokens that were measured, with the tokens of the entries
+   * and messages or with the `generateTokens` function of the conversation.
+   * Omitted if they can not be measured. */
+  measured?: number;
+}
+
+/**
+ * Why an actor data entry was included in a prompt, or dropped from it:
+ * - `keep`: the entry was included because it is kept (`ActorData.keep`).
+ * - `priority`: the entry was included because of its priority, or dropped
+ *   because the entries with a higher priority filled the window first.
+ * - `budget`: the entry was dropped because it did not fit in the remaining
+ *   tokens of the window.
+ * - `quota`: the entry was included to fill the minimum share of its section,
+ *   or dropped because it did not fit in the maximum share of its section
+ *   (see `SectionQuota`).
+ * - `relevance`: the entry was dropped because it was not retrieved as
+ *   relevant to the latest messages (see `RetrievalOptions`).
+ */
+export type RenderReason =
+  | "keep"
+  | "priority"
+  | "budget"
+  | "quota"
+  | "relevance";
+
+/**
+ * An actor data entry that was considered for a prompt.
+ */
+export interface RenderedEntry extends ActorDataReference {
+  /** Whether the entry was included in the prompt. */
+  included: boolean;
+  /** Why the entry was included or dropped. */
+  reason: RenderReason;
+  /** Whether the entry is kept. */
+  keep?: boolean;
+  /** The priority of the entry, or its score if relevant entries are
+   * retrieved. */
+  priority?: number;
+  /** The number of tokens of the entry. */
+  tokens: TokenCount;
+}
+
+/**
+ * A report of how the prompt of an actor was rendered, e.g. to find out why
+ * something was left out (see `actor.explainRender()`).
+ */
+export interface RenderReport {
+  /** The rendered prompt. */
+  prompt: string;
+  /** The number of tokens of the prompt. */
+  tokens: TokenCount;
+  /** The number of tokens of the included entries and messages, by section
+   * (`context`, `persona`, `knowledge`, `memory` and `messages`). */
+  sections: Record<string, TokenCount>;
+  /** The actor data entries, in the order in which they were considered. */
+  entries: RenderedEntry[];
+  /** The ids of the messages that were included in the prompt, and of the
+   * messages that were dropped (or would be summarized) because they did not
+   * fit in the window. */
+  messages: { included: string[]; dropped: string[] };
+  /** The size of the context window, and the number of tokens that the actor
+   * data could take. Omitted if the conversation has no window. */
+  window?: { max: number; budget: number };
 }
 
+/**
+ * The record of how a message was generated, e.g. to audit why an actor said
+ * something.
+ */
+export interface Generation {
+  /** The prompt that the message was generated from. For chat turns, this is
+   * the prompt with the same actor data and messages as the chat messages.
+   * The prompt is omitted if the conversation does not record prompts (see
+   * `recordPrompts`). */
+  prompt?: string;
+  /** The chat messages that the message was generated from, if it was
+   * generated with a `GenerateChat` function. Omitted like `prompt`. */
+  chat?: ChatMessage[];
+  /** The SHA-256 hash of the prompt (or of the chat messages as JSON), in
+   * hex. */
+  hash: string;
+  /** The actor data entries that were included in the rendered prompt. A
+   * `beforeTurn` listener that changes the prompt does not change them. */
+  entries?: ActorDataReference[];
+  /** The ids of the messages that were included in the rendered prompt, like
+   * `entries`. */
+  messages?: string[];
+  /** The number of tokens of the prompt and the completion. The counts that
+   * the model reports are used, or else they are counted. */
+  tokens?: { prompt: number; completion: number };
+  /** The time it took to generate the message, in milliseconds. */
+  latency?: number;
+  /** The model that generated the message, if the model reported it. */
+  model?: string;
+}
+
+/**
+ * The visibility of a message:
+ * - `public`: every actor sees the message.
+ * - `whisper`: the sender and the actors the message is addressed to (`to`)
+ *   see the message.
+ * - `private`: only the sender sees the message.
+ * - `system`: no actor sees the message. It is only kept in the history, e.g.
+ *   for logging.
+ */
+export type MessageVisibility = "public" | "whisper" | "private" | "system";
+
+/**
+ * A message that is added to a history. The id, creation time and feedback are
+ * filled in when they are not provided.
+ */
+export type MessageInput = PartialBy<Message, "id" | "createdAt" | "feedback">;
+
 /**
  * Response from an actor's turn. The response contains the actor that spoke,
  * and the text that they spoke.
  */
-export interface TurnResponse {
+export interface TurnResponse<Data = unknown> {
   /** The speaker of the turn. */
   speaker: string;
   /** The actor that spoke. */
@@ -125,12 +382,91 @@ export interface TurnResponse {
   text: string;
   /** The prompt used to generate the text. */
   prompt: string;
+  /** The chat messages used to generate the text, if the text was generated
+   * with a `GenerateChat` function. */
+  chat?: ChatMessage[];
   /** The tokens of the text that the actor spoke. */
   tokens?: number[];
   /** The embeddings of the text that the actor spoke. */
   embeddings?: Embeddings;
+  /** The tools that the actor called before it spoke, in order. */
+  toolCalls?: ToolCallResult[];
+  /** The message that was added to the history. */
+  message?: Message;
+  /** The parsed output of the turn, if a schema was given. The output matches
+   * the schema. */
+  data?: Data;
+}
+
+/**
+ * A tool that actors can call during their turn. The tool is described in the
+ * prompt of the actor, and its handler is run when the actor calls it.
+ */
+export interface Tool<Args = Record<string, unknown>> {
+  /** The unique name of the tool. */
+  name: string;
+  /** The description of the tool, used by the model to decide when to call
+   * it. */
+  description?: string;
+  /** The JSON schema of the arguments of the tool. Calls with arguments that
+   * do not match the schema are not run. */
+  parameters: JSONSchema;
+  /** Whether the result of the tool is removed from the history after the
+   * turn (default: `true`). */
+  ephemeral?: boolean;
+  /**
+   * The function that runs the tool.
+   * @param args The arguments of the call.
+   * @param context The conversation and the actor that called the tool.
+   * @returns The result of the call, which is serialized as JSON.
+   */
+  handler(
+    args: Args,
+    context: { conversation: Conversation; actor: Actor; signal?: AbortSignal },
+  ): unknown | Promise<unknown>;
 }
 
+/**
+ * A call of a tool, as generated by the model.
+ */
+export interface ToolCall {
+  /** The name of the tool. */
+  name: string;
+  /** The arguments of the call. */
+  arguments: unknown;
+}
+
+/**
+ * A call of a tool and its outcome.
+ */
+export interface ToolCallResult extends ToolCall {
+  /** The result of the handler, if the call succeeded. */
+  result?: unknown;
+  /** The error message, if the call failed. */
+  error?: string;
+}
+
+/**
+ * A chunk of a streamed turn. Delta chunks contain the text that was generated
+ * since the previous chunk. The final chunk contains the response, after the
+ * message has been added to the history.
+ */
+export type TurnChunk =
+  | {
+    type: "delta";
+    /** The speaker of the turn. */
+    speaker: string;
+    /** The actor that is speaking. */
+    actor: Actor;
+    /** The text that was generated since the previous chunk. */
+    text: string;
+  }
+  | {
+    type: "done";
+    /** The response of the turn. */
+    response: TurnResponse;
+  };
+
 /**
  * The context window is used to determine the size of the prompt. The size of
  * the prompt is determined by the number of tokens in the context window.
@@ -138,6 +474,232 @@ export interface TurnResponse {
 export interface ContextWindow {
   /** The maximum number of tokens in the prompt. */
   max: number;
+  /** The share of the window that is reserved for the message history, between
+   * 0 and 1 (default: `0.5`). The rest of the window is used for the context,
+   * persona, knowledge and memory of the actor. Tokens that are not used by
+   * the actor data are available to the message history. */
+  history?: number;
+  /** The shares of the actor data budget of the sections (`context`,
+   * `persona`, `knowledge` and `memory`), e.g. `{ persona: { min: 0.2 } }` to
+   * always reserve 20% of the budget for the persona. */
+  quotas?: Record<string, SectionQuota>;
+  /** Whether to skip the entries that do not fit, and add smaller entries
+   * after them (default: `false`). By default, the first entry that does not
+   * fit closes the window, so that entries with a lower priority never take
+   * the place of entries with a higher priority. */
+  bestFit?: boolean;
+  /** The time decay of the priorities of the entries. */
+  decay?: WindowDecay;
+}
+
+/**
+ * The share of the actor data budget of a section of the context window. The
+ * shares are between 0 and 1, and the minimum shares of the sections add up to
+ * 1 at most.
+ */
+export interface SectionQuota {
+  /** The share of the budget that is reserved for the section. The entries of
+   * the section are added first, in order, until they fill the share. Tokens
+   * that the section does not use are available to the other sections. */
+  min?: number;
+  /** The largest share of the budget that the section may take. Kept entries
+   * are always added, but count towards the share. */
+  max?: number;
+}
+
+/**
+ * The time decay of the priorities of actor data entries, so that recent
+ * memories are preferred over old ones. The distance between the priority of
+ * an entry and one below the lowest priority of the window is halved every
+ * half-life since the entry was created (`ActorData.createdAt`), so old entries
+ * rank below new ones of the same priority, even without a priority. Entries
+ * without a creation time do not decay.
+ */
+export interface WindowDecay {
+  /** The half-life of the decay, in milliseconds. */
+  halfLife: number;
+  /** The sections whose entries decay (default: `["memory"]`). */
+  sections?: string[];
+}
+
+/**
+ * A summary of the messages at the start of a conversation history. The
+ * summary is updated as more messages fall outside of the context window.
+ */
+export interface Summary {
+  /** The text of the summary. */
+  text: string;
+  /** The number of messages at the start of the history that are covered by
+   * the summary. Only public messages are condensed into the summary, so the
+   * other messages among them are still rendered for the actors that can see
+   * them. */
+  count: number;
+}
+
+/**
+ * The options of the summarization of a conversation history.
+ */
+export interface SummarizeOptions {
+  /** The function that generates the summary. If not provided, the function of
+   * the conversation is used. */
+  generateText?: GenerateText;
+  /** Whether to render the summary as the `summary` section of the prompt
+   * (`message`, default), or to store it as a conversation memory of the actor
+   * (`memory`). */
+  mode?: "message" | "memory";
+  /** The template for the summarization prompt. If not provided, the default
+   * template is used. */
+  template?: string;
+}
+
+/**
+ * The options of the retrieval of relevant knowledge and memory. Before an
+ * actor's prompt is rendered, the latest messages are embedded, and the
+ * knowledge and memory entries of the actor are ranked by their similarity to
+ * the messages, combined with their priority.
+ */
+export interface RetrievalOptions {
+  /** The number of latest messages to embed (default: `1`). */
+  messages?: number;
+  /** The weight of the priority of an entry in its score (default: `0.01`).
+   * The score of an entry is its similarity plus its priority times the
+   * weight. */
+  weight?: number;
+  /** The maximum number of entries to include per section. By default, the
+   * number of entries is only limited by the context window. */
+  limit?: number;
+}
+
+/**
+ * The options of the episodic memory of the actors in a conversation. As the
+ * conversation runs, salient messages are embedded and stored in a vector
+ * store as memories of the actors. When an actor's prompt is rendered, the
+ * memories of the actor that are most similar to the latest messages are
+ * recalled into its memory.
+ */
+export interface EpisodicMemoryOptions {
+  /** The store to keep the memories in. Memories are stored by actor id, so
+   * a store can be shared between conversations. */
+  store: VectorStore;
+  /** The number of turns after which memories are formed (default: `1`). */
+  every?: number;
+  /** The function that determines whether a message is salient enough to
+   * remember. By default, all messages that are not ephemeral are salient. */
+  salience?: (message: Message) => boolean;
+  /** The number of memories to recall (default: `5`). */
+  recall?: number;
+}
+
+/**
+ * The options of the reflection of an actor. When an actor reflects, it reads
+ * the recent history of the conversation, and the model extracts new facts,
+ * relationships with the other participants, beliefs and memories, which are
+ * written into the actor's knowledge, persona and memory.
+ */
+export interface ReflectionOptions {
+  /** The number of turns of the actor after which it reflects. If not
+   * provided, the actor only reflects when `Actor.reflect()` is called. */
+  every?: number;
+  /** The number of recent messages to reflect on (default: `20`). */
+  messages?: number;
+  /** The function that generates the reflection. Defaults to the
+   * `generateText` function of the conversation. */
+  generateText?: GenerateText;
+  /** The template of the reflection prompt. The model is expected to answer
+   * with a JSON object of the `facts`, `relationships`, `beliefs` and
+   * `memories` of the actor (see `templates/reflection.mustache`). */
+  template?: string;
+}
+
+/**
+ * The result of a reflection: the entries that were written into the actor's
+ * data. Entries replace existing entries of the same type and name.
+ */
+export interface Reflection {
+  /** The facts, written into `knowledge[KnowledgeType.Fact]`. */
+  facts: ActorData[];
+  /** The opinions about other participants, written into
+   * `persona[PersonaType.Relationship]` by participant name. */
+  relationships: ActorData[];
+  /** The beliefs, written into `persona[PersonaType.Belief]`. */
+  beliefs: ActorData[];
+  /** The memories, written into `memory[MemoryType.Experience]`. */
+  memories: ActorData[];
+}
+
+/**
+ * A JSON-serializable snapshot of an actor, as produced by `Actor.toJSON()`.
+ */
+export interface ActorSnapshot {
+  /** The unique identifier of the actor. */
+  id: string;
+  /** The name of the actor. */
+  name: string;
+  /** The prompt template of the actor. */
+  template: string;
+  /** The template of the system message of chat prompts. */
+  systemTemplate?: string;
+  /** The partials of the actor, by name. */
+  partials?: Record<string, string>;
+  /** The context of the actor. */
+  context: ActorContext;
+  /** The persona of the actor. */
+  persona: ActorPersona;
+  /** The knowledge of the actor. */
+  knowledge: ActorKnowledge;
+  /** The memory of the actor. */
+  memory: ActorMemory;
+  /** The reflection options of the actor, without the `generateText`
+   * function. */
+  reflection?: Omit<ReflectionOptions, "generateText">;
+}
+
+/**
+ * A JSON-serializable snapshot of a conversation history, as produced by
+ * `ConversationHistory.toJSON()`.
+ */
+export interface ConversationHistorySnapshot {
+  /** The messages in the history. */
+  messages: Message[];
+  /** The summary of the messages at the start of the history. */
+  summary?: Summary;
+  /** The versions of messages that were replaced by a regenerated message,
+   * by the id of the regenerated message. */
+  alternatives?: Record<string, Message[]>;
+}
+
+/**
+ * A JSON-serializable snapshot of a scheduler, as produced by
+ * `Scheduler.toJSON()`. The type is used to find the scheduler to restore the
+ * snapshot with, the other properties are specific to the scheduler.
+ */
+export interface SchedulerSnapshot {
+  /** The type of the scheduler. */
+  type: string;
+  /** The state of the scheduler. */
+  [key: string]: unknown;
+}
+
+/**
+ * A JSON-serializable snapshot of a conversation, as produced by
+ * `Conversation.toJSON()`. The version is used to upgrade snapshots that were
+ * saved by older versions of the package.
+ */
+export interface ConversationSnapshot {
+  /** The version of the snapshot schema. */
+  version: number;
+  /** The unique identifier of the conversation. */
+  id: string;
+  /** The name of the conversation. */
+  name: string;
+  /** The context window of the conversation. */
+  window?: number | ContextWindow;
+  /** The actors in the conversation. */
+  actors: ActorSnapshot[];
+  /** The history of the conversation. */
+  history: ConversationHistorySnapshot;
+  /** The scheduler of the conversation. */
+  scheduler: SchedulerSnapshot;
 }
 
 /**
@@ -1,5 +1,12 @@
 import { readFile } from "fs/promises";
-import type { ActorData, Message } from "./types.js";
+import type {
+  ActorData,
+  ContextWindow,
+  Embeddings,
+  Message,
+  RenderReason,
+  ToolCall,
+} from "./types.js";
 
 /**
  * Reduce a map to a record. Optionally sort the entries before reducing.
@@ -28,22 +35,26 @@ export function reduce<T = unknown>(
 /**
  * Mask the messages in a conversation. Masking the messages in a conversation
  * removes the messages that are outside of the window. The window is the
- * maximum combined length of the embeddings of the messages. A heuristic is
- * used to approximate the length of the embeddings for messages that do not
- * have embeddings.
+ * maximum combined number of tokens of the messages. The most recent messages
+ * are kept. A heuristic is used to approximate the number of tokens of
+ * messages that do not have tokens.
  * @param messages The messages to mask.
- * @param window The maximum combined length of the embeddings of the messages.
+ * @param window The maximum combined number of tokens of the messages.
+ * @param count The function that counts the tokens of a message.
  * @returns The unmasked messages.
  */
-export function mask(messages: Message[], window: number): Message[] {
+export function mask(
+  messages: Message[],
+  window: number,
+  count: (message: Message) => number = (message) =>
+    message.tokens?.length ?? heuristic(message.text),
+): Message[] {
   const unmasked: Message[] = [];
   let totalLength = 0;
 
   for (let i = messages.length - 1; i >= 0; i--) {
     const message = messages[i];
-    const length = message.embeddings
-      ? message.embeddings.length
-      : heuristic(message.text);
+    const length = count(message);
 
     if (totalLength + length > window) {
       break;
@@ -84,14 +95,62 @@ export function cosineSimilarity(a: number[], b: number[]): number {
 }
 
 /**
- * Get the approximate length of a text. This method is used when a text
- * does not have tokens. The heuristic is based on OpenAI's notion that
- * 1k tokens is roughly 750 words (3/4ths).
+ * Get the similarity of two sets of embeddings. The similarity is the highest
+ * cosine similarity between any vector of the first set and any vector of the
+ * second set.
+ * @param a The first set of embeddings.
+ * @param b The second set of embeddings.
+ * @returns The similarity of the embeddings, or `0` if either set is empty.
+ */
+export function similarity(a: Embeddings, b: Embeddings): number {
+  let highest = -Infinity;
+
+  for (const x of a) {
+    for (const y of b) {
+      highest = Math.max(highest, cosineSimilarity(x, y));
+    }
+  }
+
+  return highest === -Infinity ? 0 : highest;
+}
+
+/**
+ * The pieces of a text that the heuristic counts: words of Latin letters and
+ * digits, characters of scripts that are written without spaces (Chinese,
+ * Japanese and Korean), words of other scripts, and other characters.
+ */
+const PIECES =
+  /([\p{Script=Latin}\p{M}\p{Nd}]+)|([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}])|([\p{L}\p{M}]+)|\S/gu;
+
+/**
+ * Get the approximate number of tokens of a text. This method is used when a
+ * text does not have tokens, and the conversation has no tokenizer. The
+ * heuristic is based on OpenAI's notion that 1k tokens is roughly 750 words,
+ * so a word counts as 4/3 of a token. Punctuation marks and other symbols
+ * count as a token each, as do the characters of Chinese, Japanese and
+ * Korean. Words of other scripts (e.g. Cyrillic or Arabic) count as a token
+ * per two characters.
  */
 export function heuristic(text: string) {
-  return Math.ceil(text.split(" ").length * 0.75);
+  let tokens = 0;
+
+  for (const [, word, character, letters] of text.matchAll(PIECES)) {
+    tokens += word
+      ? 4 / 3
+      : character
+      ? 1
+      : letters
+      ? Math.ceil(letters.length / 2)
+      : 1;
+  }
+
+  return Math.ceil(tokens);
 }
 
+/**
+ * An actor data entry with its section, its type and its index in the original
+ * order of the values of a window.
+ */
 export interface IndexedActorData extends ActorData {
   section: string;
   type: string;
@@ -99,79 +158,284 @@ export interface IndexedActorData extends ActorData {
 }
 
 /**
- * Build a window of values. The window is built by adding values in order
- * until the maximum number of tokens is reached. The values are sorted by
- * `keep` (true first), then by `priority` (high first), then by index
- * (low first). Then the values are sorted by the original index, so that
- * the values are returned in the original order.
+ * An actor data entry that was considered for a window, and whether it was
+ * included (see `explainWindow()`).
+ */
+export interface WindowEntry extends IndexedActorData {
+  /** The priority of the entry after time decay (see `WindowDecay`). */
+  score: number;
+  /** The number of tokens of the entry. */
+  count: number;
+  /** Whether the entry was included in the window. */
+  included: boolean;
+  /** Why the entry was included or dropped (see `RenderReason`). */
+  reason: Exclude<RenderReason, "relevance">;
+}
+
+/**
+ * The options of a window (see `ContextWindow`).
+ */
+export interface WindowOptions
+  extends Pick<ContextWindow, "quotas" | "bestFit" | "decay"> {
+  /** The current time, to decay the priorities with (default: `Date.now()`). */
+  now?: number;
+}
+
+/**
+ * Decide which values enter a window, and why.
+ *
+ * The values are ranked by `keep` (true first), then by `priority` (high
+ * first), then by their original order (first first): by section, by type and
+ * by position. If the window decays, the priorities of the values that have a
+ * `createdAt` time decay towards one below the lowest priority of the values
+ * (see `WindowDecay`).
+ *
+ * The window is filled in three passes, each in rank order:
+ * 1. The kept values, which are only limited by the size of the window.
+ * 2. The values of the sections with a minimum quota, until they fill their
+ *    minimum share of the window (see `SectionQuota`).
+ * 3. The other values, within the size of the window and the maximum share of
+ *    their section.
+ *
+ * By default, the first value that does not fit in the window closes it, and
+ * the values after it are dropped, so that lower values never take the place
+ * of higher ones. Likewise, the first value that does not fit in the maximum
+ * share of its section closes the section. With `bestFit`, values that do not
+ * fit are skipped, and the values after them are still added if they fit.
+ *
+ * Included values were included because they are kept (`keep`), to fill the
+ * minimum share of their section (`quota`) or because of their `priority`.
+ * Dropped values did not fit in the maximum share of their section (`quota`)
+ * or in the window (`budget`), or were dropped because the window was closed
+ * before them (`priority`, or `budget` if they are kept).
  * @param inputValues The values to build the window from
  * @param maxTokens The maximum number of tokens in the window
- * @returns The values in the window in the original order
+ * @param count The function that counts the tokens of a value
+ * @param options The quotas, best fit and decay of the window
+ * @returns The values, in rank order
  */
-export function buildWindow(
+export function explainWindow(
   inputValues: Record<string, Record<string, ActorData[]>>,
   maxTokens: number,
-): Record<string, ActorData[]> {
-  let currentTokens = 0;
-  const sortedValues: IndexedActorData[] = [];
+  count: (value: ActorData) => number = (value) =>
+    value.tokens?.length ?? heuristic(value.value),
+  { quotas = {}, bestFit = false, decay, now = Date.now() }: WindowOptions =
+    {},
+): WindowEntry[] {
+  const decaying = decay?.sections ?? ["memory"];
+  const entries: WindowEntry[] = [];
 
-  // Add an index, section and type to each value
+  // Priorities decay towards one below the lowest priority, so that an old
+  // value ranks below a newer one of the same priority, even if the priority
+  // is zero or negative
+  const floor = Math.min(
+    ...Object.values(inputValues).flatMap((types) =>
+      Object.values(types).flat().map(({ priority = 0 }) => priority)
+    ),
+  ) - 1;
+
+  // Add an index, section, type, score and count to each value, in the
+  // original order
   for (const section in inputValues) {
-    const typeMap = inputValues[section];
-    Object.entries(typeMap).forEach(([type, values], index) => {
+    for (const [type, values] of Object.entries(inputValues[section])) {
       for (const value of values) {
-        sortedValues.push({
+        const priority = value.priority ?? 0;
+        const age = Math.max(0, now - (value.createdAt ?? now));
+
+        entries.push({
           ...value,
-          index,
+          index: entries.length,
           section,
           type,
+          score: decay && decaying.includes(section)
+            ? floor + (priority - floor) * 0.5 ** (age / decay.halfLife)
+            : priority,
+          count: count(value),
+          included: false,
+          reason: "priority",
         });
       }
-    });
+    }
   }
 
-  // Sort values by keep (true first), then by priority (high first), then by index (low first)
-  sortedValues.sort((a, b) => {
-    if (a.keep !== b.keep) return a.keep ? -1 : 1;
-    if (a.priority !== b.priority) return (b.priority ?? 0) - (a.priority ?? 0);
-    return b.index - a.index;
+  // Rank values by keep (true first), then by score (high first), then by
+  // index (low first)
+  const ranked = [...entries].sort((a, b) => {
+    if (!a.keep !== !b.keep) return a.keep ? -1 : 1;
+    if (a.score !== b.score) return b.score - a.score;
+    return a.index - b.index;
   });
 
-  // Process values in the sorted order and build the output map
-  const orderedValues: Record<string, IndexedActorData[]> = {};
+  const used: Record<string, number> = {};
+  const closed = new Set<string>();
+  let total = 0;
+  let full = false;
+
+  const share = (section: string, bound: "min" | "max") => {
+    const quota = quotas[section]?.[bound];
+    return typeof quota === "number" ? Math.floor(quota * maxTokens) : quota;
+  };
+
+  const add = (entry: WindowEntry, reason: WindowEntry["reason"]) => {
+    used[entry.section] = (used[entry.section] ?? 0) + entry.count;
+    total += entry.count;
+    entry.included = true;
+    entry.reason = reason;
+  };
 
-  for (const value of sortedValues) {
-    const tokenLength = value.tokens?.length ?? heuristic(value.value);
-    if (currentTokens + tokenLength > maxTokens) {
+  // 1. The kept values
+  for (const entry of ranked) {
+    if (!entry.keep || full) {
       break;
+    } else if (total + entry.count <= maxTokens) {
+      add(entry, "keep");
+    } else {
+      full = !bestFit;
     }
+  }
+
+  // 2. The values of the sections with a minimum quota
+  for (const section in quotas) {
+    const min = share(section, "min") ?? 0;
 
-    if (!orderedValues[value.section]) {
-      orderedValues[value.section] = [];
+    for (const entry of ranked) {
+      if (full) {
+        break;
+      } else if (entry.section !== section || entry.included) {
+        continue;
+      } else if (
+        (used[section] ?? 0) + entry.count <= min &&
+        total + entry.count <= maxTokens
+      ) {
+        add(entry, "quota");
+      } else if (!bestFit) {
+        break;
+      }
     }
+  }
+
+  // 3. The other values
+  for (const entry of ranked) {
+    const max = share(entry.section, "max");
+
+    if (entry.included) {
+      continue;
+    } else if (full) {
+      entry.reason = entry.keep ? "budget" : "priority";
+    } else if (
+      !entry.keep && (closed.has(entry.section) ||
+        max !== undefined && (used[entry.section] ?? 0) + entry.count > max)
+    ) {
+      entry.reason = "quota";
 
-    orderedValues[value.section].push(value);
-    currentTokens += tokenLength;
+      if (!bestFit) {
+        closed.add(entry.section);
+      }
+    } else if (total + entry.count > maxTokens) {
+      entry.reason = "budget";
+      full = !bestFit;
+    } else {
+      add(entry, entry.keep ? "keep" : "priority");
+    }
   }
 
+  return ranked;
+}
+
+/**
+ * Build a window of values. The values are added in rank order until the
+ * maximum number of tokens is reached, within the quotas of their sections
+ * (see `explainWindow()`). Then the values are sorted by their original index,
+ * so that the values are returned in the original order.
+ * @param inputValues The values to build the window from
+ * @param maxTokens The maximum number of tokens in the window
+ * @param count The function that counts the tokens of a value
+ * @param options The quotas, best fit and decay of the window
+ * @returns The values in the window in the original order, by section
+ */
+export function buildWindow(
+  inputValues: Record<string, Record<string, ActorData[]>>,
+  maxTokens: number,
+  count: (value: ActorData) => number = (value) =>
+    value.tokens?.length ?? heuristic(value.value),
+  options: WindowOptions = {},
+): Record<string, ActorData[]> {
+  const included = explainWindow(inputValues, maxTokens, count, options)
+    .filter((value) => value.included)
+    .sort((a, b) => a.index - b.index);
+
   const outputValues: Record<string, ActorData[]> = {};
 
-  // Re-sort each type list by the original index and remove the index, section, and type properties
-  for (const section in orderedValues) {
-    for (const type in orderedValues[section]) {
-      if (!outputValues[section]) {
-        outputValues[section] = [];
-      }
+  // Remove the index, section, score, count, included and reason properties
+  for (const value of included) {
+    const { index, section, score, count, included, reason, ...rest } = value;
 
-      outputValues[section] = orderedValues[section].sort((a, b) =>
-        a.index - b.index
-      ).map(({ index, section, ...rest }) => rest);
+    if (!outputValues[section]) {
+      outputValues[section] = [];
     }
+
+    outputValues[section].push(rest);
   }
 
   return outputValues;
 }
 
+/**
+ * Parse the JSON in a generated text. Models often wrap JSON in a code fence,
+ * or surround it with prose, so the first fenced block (or else the text from
+ * the first `{` or `[` to the last `}` or `]`) is parsed.
+ * @param text The text to parse the JSON of
+ * @returns The parsed value
+ * @throws {SyntaxError} If the text does not contain valid JSON
+ */
+export function parseJSON<T = unknown>(text: string): T {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const source = fenced ? fenced[1] : text;
+  const start = source.search(/[{[]/);
+  const end = Math.max(source.lastIndexOf("}"), source.lastIndexOf("]"));
+
+  if (start === -1 || end < start) {
+    throw new SyntaxError("The text does not contain JSON");
+  }
+
+  return JSON.parse(source.slice(start, end + 1));
+}
+
+/**
+ * Parse the tool calls in a generated text. A tool call is a JSON object with
+ * the name and arguments of the tool, wrapped in a `<tool_call>` tag, e.g.
+ * `<tool_call>{"name": "search", "arguments": {"query": "cats"}}</tool_call>`.
+ * Calls that are not valid JSON, or have no name, are ignored.
+ * @param text The text to parse the tool calls of
+ * @returns The tool calls, in order
+ */
+export function parseToolCalls(text: string): ToolCall[] {
+  const calls: ToolCall[] = [];
+
+  for (const [, body] of text.matchAll(/<tool_call>([\s\S]*?)<\/tool_call>/g)) {
+    try {
+      const { name, arguments: args = {} } = JSON.parse(body);
+
+      if (typeof name === "string" && name) {
+        calls.push({ name, arguments: args });
+      }
+    } catch {
+      // Ignore calls that are not valid JSON
+    }
+  }
+
+  return calls;
+}
+
+/**
+ * Format a tool call, in the format that is parsed by `parseToolCalls()`.
+ * @param call The tool call to format
+ * @returns The formatted tool call
+ */
+export function formatToolCall({ name, arguments: args }: ToolCall): string {
+  return `<tool_call>${JSON.stringify({ name, arguments: args })}</tool_call>`;
+}
+
 /**
  * Load a prompt template from the templates directory.
  * @param name The name of the template to load
@@ -1,5 +1,7 @@
 import { expect } from "chai";
 import { Actor } from "../src/lib/Actor";
+import { Conversation } from "../src/lib/Conversation";
+import { heuristic } from "../src/util";
 
 describe("Actor", () => {
   let actor: Actor;
@@ -12,4 +14,514 @@ describe("Actor", () => {
   it("should have a name", () => {
     expect(actor.name).to.equal("Bob");
   });
+
+  describe("render()", () => {
+    const generateTokens = async (text: string) =>
+      text.split(/\s+/).filter(Boolean).map(() => 0);
+
+    it("should keep the rendered prompt within the window", async () => {
+      const alice = new Actor("Alice", {
+        template: "{{#persona}}{{value}}\n{{/persona}}" +
+          "{{#messages}}{{actor}}: {{text}}\n{{/messages}}",
+        persona: {
+          trait: [{ name: "trait", type: "trait", value: "kind and curious" }],
+        },
+      });
+
+      const conversation = new Conversation("Chat", {
+        actors: [alice],
+        generateTokens,
+        window: { max: 30, history: 0.8 },
+        messages: Array.from({ length: 20 }, (_, i) => ({
+          actor: "Bob",
+          text: `message number ${i}`,
+          feedback: [0, 0] as [number, number],
+        })),
+      });
+
+      const prompt = await alice.render(conversation);
+
+      expect((await generateTokens(prompt)).length).to.be.at.most(30);
+      expect(prompt).to.contain("kind and curious");
+      expect(prompt).to.contain("message number 19");
+      expect(prompt).not.to.contain("message number 0\n");
+    });
+
+    it("should only render the messages the actor can see", async () => {
+      const [alice, bob, carol] = ["Alice", "Bob", "Carol"].map((name) =>
+        new Actor(name, { template: "{{#messages}}{{text}}\n{{/messages}}" })
+      );
+
+      const conversation = new Conversation("Game", {
+        actors: [alice, bob, carol],
+        messages: [
+          { actor: "Alice", text: "public" },
+          {
+            actor: "Alice",
+            text: "whisper",
+            to: ["Bob"],
+            visibility: "whisper",
+          },
+          { actor: "Alice", text: "private", visibility: "private" },
+          { actor: "System", text: "system", visibility: "system" },
+        ],
+      });
+
+      expect(await alice.render(conversation)).to.equal(
+        "public\nwhisper\nprivate\n",
+      );
+      expect(await bob.render(conversation)).to.equal("public\nwhisper\n");
+      expect(await carol.render(conversation)).to.equal("public\n");
+      expect(conversation.history.getVisibleMessages("Carol")).to.have.lengthOf(
+        1,
+      );
+    });
+
+    it("should throw when the prompt can not fit", async () => {
+      const alice = new Actor("Alice", { template: "a b c d e f g h" });
+      const conversation = new Conversation("Chat", {
+        actors: [alice],
+        generateTokens,
+        window: 4,
+      });
+
+      try {
+        await alice.render(conversation);
+        expect.fail("Expected an error");
+      } catch (err) {
+        expect((err as Error).message).to.match(/does not fit/);
+      }
+    });
+
+    describe("summarization", () => {
+      const template = "{{#summary}}Summary: {{text}}\n{{/summary}}" +
+        "{{#memory}}Memory: {{value}}\n{{/memory}}" +
+        "{{#messages}}{{actor}}: {{text}}\n{{/messages}}";
+
+      const messages = () =>
+        Array.from({ length: 20 }, (_, i) => ({
+          actor: "Bob",
+          text: `message number ${i}`,
+          feedback: [0, 0] as [number, number],
+        }));
+
+      it("should condense old messages into a summary", async () => {
+        const alice = new Actor("Alice", { template });
+        const prompts: string[] = [];
+        const conversation = new Conversation("Chat", {
+          actors: [alice],
+          generateTokens,
+          generateText: async (prompt) => {
+            prompts.push(prompt);
+            return { text: `summary ${prompts.length}` };
+          },
+          summarize: true,
+          window: 40,
+          messages: messages(),
+        });
+
+        const prompt = await alice.render(conversation);
+        const { summary } = conversation.history;
+
+        expect(summary?.count).to.be.greaterThan(0);
+        expect(prompt).to.contain(`Summary: ${summary?.text}`);
+        expect(prompt).to.contain("message number 19");
+        expect(prompt).not.to.contain(
+          `message number ${summary!.count - 1}\n`,
+        );
+        expect(prompts[0]).to.contain("Bob: message number 0");
+        expect(conversation.toJSON().history.summary).to.deep.equal(summary);
+
+        // The summary is updated incrementally
+        for (let i = 20; i < 30; i++) {
+          conversation.history.push({ actor: "Bob", text: `message ${i}` });
+        }
+
+        await alice.render(conversation);
+
+        expect(conversation.history.summary!.count)
+          .to.be.greaterThan(summary!.count);
+        expect(prompts[prompts.length - 1]).to.contain(summary!.text);
+      });
+
+      it("should not escape the summarized messages", async () => {
+        const alice = new Actor("Alice", { template });
+        const prompts: string[] = [];
+        const conversation = new Conversation("Chat", {
+          actors: [alice],
+          generateTokens,
+          generateText: async (prompt) => {
+            prompts.push(prompt);
+            return { text: "a summary" };
+          },
+          summarize: true,
+          window: 40,
+          messages: [
+            { actor: "Bob", text: `Tom & Jerry's "show"` },
+            ...messages(),
+          ],
+        });
+
+        await alice.render(conversation);
+
+        expect(prompts[0]).to.contain(`Bob: Tom & Jerry's "show"\n`);
+      });
+
+      it("should keep whispers out of the summary", async () => {
+        const [alice, bob] = ["Alice", "Bob"].map((name) =>
+          new Actor(name, { template })
+        );
+        const prompts: string[] = [];
+        const conversation = new Conversation("Chat", {
+          actors: [alice, bob],
+          generateTokens,
+          generateText: async (prompt) => {
+            prompts.push(prompt);
+            return { text: "a summary" };
+          },
+          summarize: true,
+          window: 40,
+          messages: [
+            {
+              actor: "Carol",
+              text: "psst",
+              to: ["Bob"],
+              visibility: "whisper",
+            },
+            ...messages(),
+          ],
+        });
+
+        await alice.render(conversation);
+        const { summary } = conversation.history;
+
+        expect(summary!.count).to.be.greaterThan(1);
+        expect(prompts[0]).not.to.contain("psst");
+        expect(await bob.render(conversation)).to.contain("Carol: psst\n");
+        expect(await alice.render(conversation)).not.to.contain("psst");
+        expect(prompts.join()).not.to.contain("psst");
+      });
+
+      it("should store the summary as a memory", async () => {
+        const alice = new Actor("Alice", { template });
+        const conversation = new Conversation("Chat", {
+          actors: [alice],
+          generateTokens,
+          generateText: async () => ({ text: "a summary" }),
+          summarize: { mode: "memory" },
+          window: 40,
+          messages: messages(),
+        });
+
+        const prompt = await alice.render(conversation);
+
+        expect(prompt).to.contain("Memory: a summary");
+        expect(prompt).not.to.contain("Summary:");
+        expect(alice.memory.conversation).to.have.lengthOf(1);
+
+        // Explaining the render leaves the memory as it is
+        const [memory] = alice.memory.conversation!;
+        await alice.explainRender(conversation);
+        expect(alice.memory.conversation).to.deep.equal([memory]);
+        expect(alice.memory.conversation![0]).to.equal(memory);
+      });
+    });
+
+    describe("retrieval", () => {
+      const embed = async (text: string) => [
+        [text.includes("cat") ? 1 : 0, text.includes("dog") ? 1 : 0, 0.1],
+      ];
+
+      it("should include the most relevant knowledge", async () => {
+        const alice = new Actor("Alice", {
+          template: "{{#knowledge}}{{value}}\n{{/knowledge}}",
+          knowledge: {
+            fact: [
+              { name: "cats", type: "fact", value: "A cat purrs" },
+              { name: "dogs", type: "fact", value: "A dog barks" },
+            ],
+          },
+        });
+
+        const conversation = new Conversation("Chat", {
+          actors: [alice],
+          generateEmbeddings: embed,
+          retrieval: { limit: 1 },
+          messages: [
+            { actor: "Bob", text: "Tell me about my dog", feedback: [0, 0] },
+          ],
+        });
+
+        const prompt = await alice.render(conversation);
+
+        expect(prompt).to.contain("A dog barks");
+        expect(prompt).not.to.contain("A cat purrs");
+        expect(alice.knowledge.fact![0].embeddings).to.deep.equal(
+          await embed("A cat purrs"),
+        );
+      });
+    });
+  });
+
+  describe("explainRender()", () => {
+    const generateTokens = async (text: string) =>
+      text.split(/\s+/).filter(Boolean).map(() => 0);
+
+    it("should report what was included and dropped", async () => {
+      const alice = new Actor("Alice", {
+        template: "{{#persona}}{{value}}\n{{/persona}}" +
+          "{{#messages}}{{actor}}: {{text}}\n{{/messages}}",
+        persona: {
+          trait: [
+            { name: "calm", type: "trait", value: "calm and kind", keep: true },
+            {
+              name: "loud",
+              type: "trait",
+              value: "very loud indeed today and always",
+              priority: 1,
+            },
+          ],
+          interest: [
+            {
+              name: "cats",
+              type: "interest",
+              value: "likes cats",
+              priority: 5,
+            },
+          ],
+          habit: [{ name: "hums", type: "habit", value: "hums" }],
+        },
+      });
+
+      const conversation = new Conversation("Chat", {
+        actors: [alice],
+        generateTokens,
+        window: { max: 20, history: 0.5 },
+        messages: Array.from({ length: 10 }, (_, i) => ({
+          actor: "Bob",
+          text: `message number ${i}`,
+        })),
+      });
+
+      const report = await alice.explainRender(conversation);
+      const ids = conversation.history.messages.map(({ id }) => id);
+
+      expect(report.prompt).to.equal(await alice.render(conversation));
+      expect(report.entries.map(({ name, included, reason }) => ({
+        name,
+        included,
+        reason,
+      }))).to.deep.equal([
+        { name: "calm", included: true, reason: "keep" },
+        { name: "cats", included: true, reason: "priority" },
+        { name: "loud", included: false, reason: "budget" },
+        { name: "hums", included: false, reason: "priority" },
+      ]);
+      expect(report.entries[2].tokens).to.deep.equal({
+        estimated: heuristic("very loud indeed today and always"),
+        measured: 6,
+      });
+      expect(report.sections.persona).to.deep.equal({
+        estimated: heuristic("calm and kind") + heuristic("likes cats"),
+        measured: 5,
+      });
+      expect(report.sections.knowledge).to.deep.equal({
+        estimated: 0,
+        measured: 0,
+      });
+      expect(report.messages.included).to.deep.equal(
+        ids.slice(-report.messages.included.length),
+      );
+      expect([...report.messages.dropped, ...report.messages.included])
+        .to.deep.equal(ids);
+      expect(report.sections.messages.measured).to.equal(
+        3 * report.messages.included.length,
+      );
+      expect(report.tokens).to.deep.equal({
+        estimated: heuristic(report.prompt),
+        measured: (await generateTokens(report.prompt)).length,
+      });
+      expect(report.window).to.deep.equal({ max: 20, budget: 10 });
+    });
+
+    it("should report the entries that were not relevant", async () => {
+      const alice = new Actor("Alice", {
+        knowledge: {
+          fact: [
+            { name: "cats", type: "fact", value: "A cat purrs" },
+            { name: "dogs", type: "fact", value: "A dog barks" },
+          ],
+        },
+      });
+
+      const conversation = new Conversation("Chat", {
+        actors: [alice],
+        generateEmbeddings: async (text) => [
+          [text.includes("cat") ? 1 : 0, text.includes("dog") ? 1 : 0, 0.1],
+        ],
+        retrieval: { limit: 1 },
+        messages: [{ actor: "Bob", text: "Tell me about my dog" }],
+      });
+
+      const { entries, sections, window } = await alice.explainRender(
+        conversation,
+      );
+
+      expect(entries.map(({ name, reason }) => [name, reason])).to.deep.equal([
+        ["dogs", "priority"],
+        ["cats", "relevance"],
+      ]);
+      expect(sections.knowledge).to.deep.equal({
+        estimated: heuristic("A dog barks"),
+      });
+      expect(window).to.be.undefined;
+    });
+  });
+
+  describe("renderChat()", () => {
+    it("should render the history as chat messages", async () => {
+      const alice = new Actor("Alice", {
+        systemTemplate: "You are {{name}}.",
+      });
+      const conversation = new Conversation("Chat", {
+        actors: [alice, new Actor("Bob")],
+        messages: [
+          { actor: "Bob", text: "Hi!" },
+          { actor: "Alice", text: "Hello." },
+        ],
+      });
+
+      expect(await alice.renderChat(conversation)).to.deep.equal([
+        { role: "system", content: "You are Alice." },
+        { role: "user", content: "Bob: Hi!" },
+        { role: "assistant", content: "Hello." },
+        { role: "user", content: "Continue the conversation as Alice." },
+      ]);
+
+      await conversation.inject("How are you?", { speaker: "Bob" });
+      const messages = await alice.renderChat(conversation);
+
+      expect(messages[messages.length - 1]).to.deep.equal({
+        role: "user",
+        content: "Bob: How are you?",
+      });
+    });
+  });
+
+  describe("reflect()", () => {
+    const reflection = {
+      facts: [{ name: "pets", value: "Bob has a dog", priority: 3 }],
+      relationships: [{ name: "Bob", value: "A friendly neighbour" }],
+      beliefs: [{ name: "dogs", value: "Dogs are loyal", priority: 5 }],
+      memories: [{ name: "walk", value: "Bob walked his dog" }, null],
+    };
+
+    it("should write what the actor learned into its data", async () => {
+      const alice = new Actor("Alice", {
+        persona: {
+          belief: [{ name: "dogs", type: "belief", value: "Dogs are loud" }],
+        },
+      });
+
+      const conversation = new Conversation("Chat", {
+        actors: [alice, new Actor("Bob")],
+        generateText: async () => ({
+          text: "```json\n" + JSON.stringify(reflection) + "\n```",
+        }),
+        messages: [
+          { actor: "Bob", text: "I walked my dog", feedback: [0, 0] },
+        ],
+      });
+
+      const result = await alice.reflect(conversation);
+
+      expect(result.memories).to.have.lengthOf(1);
+      expect(alice.knowledge.fact).to.deep.equal([
+        { name: "pets", type: "fact", value: "Bob has a dog", priority: 3 },
+      ]);
+      expect(alice.persona.relationship![0].value).to.equal(
+        "A friendly neighbour",
+      );
+      expect(alice.persona.belief).to.deep.equal([
+        { name: "dogs", type: "belief", value: "Dogs are loyal", priority: 5 },
+      ]);
+      expect(alice.memory.experience![0].value).to.equal("Bob walked his dog");
+    });
+
+    it("should not escape the reflection prompt", async () => {
+      const alice = new Actor("Alice", {
+        persona: {
+          belief: [{ name: "dogs", type: "belief", value: `Dogs "bark"` }],
+        },
+      });
+      let prompt = "";
+
+      const conversation = new Conversation("Chat", {
+        actors: [alice, new Actor("Bob")],
+        generateText: async (text) => {
+          prompt = text;
+          return { text: JSON.stringify(reflection) };
+        },
+        messages: [
+          { actor: "Bob", text: "I walked Rex & Max's dog", feedback: [0, 0] },
+        ],
+      });
+
+      await alice.reflect(conversation);
+
+      expect(prompt).to.contain(`Dogs "bark"`);
+      expect(prompt).to.contain("I walked Rex & Max's dog");
+    });
+
+    it("should reflect every n turns of the actor", async () => {
+      const alice = new Actor("Alice", { reflection: { every: 2 } });
+      const prompts: string[] = [];
+      const conversation = new Conversation("Chat", {
+        actors: [alice],
+        generateText: async (prompt) => {
+          prompts.push(prompt);
+          return {
+            text: prompt.startsWith("## Instructions\nReflect")
+              ? JSON.stringify(reflection)
+              : "Hello",
+          };
+        },
+      });
+
+      let reflections = 0;
+      conversation.on("reflection", () => reflections++);
+
+      for (let i = 0; i < 4; i++) {
+        await conversation.turn({ speaker: alice });
+      }
+
+      expect(prompts).to.have.lengthOf(6);
+      expect(reflections).to.equal(2);
+      expect(Actor.fromJSON(alice.toJSON()).reflection).to.deep.equal({
+        every: 2,
+      });
+    });
+
+    it("should not fail the turn if the reflection fails", async () => {
+      const alice = new Actor("Alice", { reflection: { every: 1 } });
+      const conversation = new Conversation("Chat", {
+        actors: [alice],
+        generateText: async (prompt) => ({
+          text: prompt.startsWith("## Instructions\nReflect")
+            ? "I learned a lot today."
+            : "Hello",
+        }),
+      });
+
+      const errors: unknown[] = [];
+      conversation.on("reflection", ({ error }) => errors.push(error));
+
+      const response = await conversation.turn({ speaker: alice });
+
+      expect(response.text).to.equal("Hello");
+      expect(conversation.history.messages).to.have.lengthOf(1);
+      expect(errors).to.have.lengthOf(1);
+      expect(errors[0]).to.be.an.instanceOf(SyntaxError);
+    });
+  });
 });
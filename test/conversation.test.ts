@@ -0,0 +1,539 @@
+import { expect } from "chai";
+import { createHash } from "crypto";
+import { Actor } from "../src/lib/Actor";
+import { Conversation } from "../src/lib/Conversation";
+import { MemoryConversationStore } from "../src/lib/ConversationStore";
+import { heuristic } from "../src/util";
+
+describe("Conversation", () => {
+  const generateText = async () => ({ text: "Hello!" });
+
+  it("should restore a conversation from a snapshot", async () => {
+    const conversation = new Conversation("Debate", {
+      actors: [
+        new Actor("Alice", {
+          knowledge: { fact: [{ name: "sky", type: "fact", value: "blue" }] },
+        }),
+        new Actor("Bob"),
+      ],
+      generateText,
+      window: 1024,
+    });
+
+    await conversation.turn({});
+    conversation.history.up(conversation.history.messages[0]);
+
+    const json = JSON.parse(JSON.stringify(conversation));
+    const restored = Conversation.fromJSON(json, { generateText });
+
+    expect(restored.id).to.equal(conversation.id);
+    expect(restored.name).to.equal("Debate");
+    expect(restored.window).to.equal(1024);
+    expect(restored.actors.map((actor) => actor.id)).to.deep.equal(
+      conversation.actors.map((actor) => actor.id),
+    );
+    expect(restored.actors[0].knowledge).to.deep.equal(
+      conversation.actors[0].knowledge,
+    );
+    expect(restored.history.messages).to.deep.equal(json.history.messages);
+    expect(restored.toJSON().scheduler).to.deep.equal({
+      type: "RoundRobinScheduler",
+      lastIndex: 1,
+    });
+  });
+
+  it("should restore an unversioned snapshot", () => {
+    const restored = Conversation.fromJSON({
+      actors: [new Actor("Alice").toJSON()],
+      history: { messages: [] },
+      scheduler: { type: "IndexScheduler", lastIndex: 3 },
+    } as any);
+
+    expect(restored.id).to.be.a("string");
+    expect(restored.toJSON().scheduler).to.deep.equal({
+      type: "RoundRobinScheduler",
+      lastIndex: 3,
+    });
+  });
+
+  it("should assign ids to the messages of a version 1 snapshot", () => {
+    const restored = Conversation.fromJSON({
+      version: 1,
+      id: "chat",
+      name: "Chat",
+      actors: [new Actor("Alice").toJSON()],
+      history: {
+        messages: [{ actor: "Alice", text: "Hello", feedback: [0, 0] }],
+      },
+      scheduler: { type: "RoundRobinScheduler", lastIndex: 0 },
+    } as any);
+
+    const [message] = restored.history.messages;
+
+    expect(message.id).to.be.a("string");
+    expect(message.createdAt).to.be.a("number");
+    expect(restored.history.getById(message.id)).to.equal(message);
+  });
+
+  it("should hash the generation records of a version 2 snapshot", () => {
+    const restored = Conversation.fromJSON({
+      version: 2,
+      id: "chat",
+      name: "Chat",
+      actors: [new Actor("Alice").toJSON()],
+      history: {
+        messages: [{
+          id: "hello",
+          createdAt: 0,
+          actor: "Alice",
+          text: "Hello",
+          feedback: [0, 0],
+          generation: { prompt: "Hi" },
+        }],
+      },
+      scheduler: { type: "RoundRobinScheduler", lastIndex: 0 },
+    } as any);
+
+    const [message] = restored.history.messages;
+
+    expect(message.generation!.hash).to.equal(
+      createHash("sha256").update("Hi").digest("hex"),
+    );
+    expect(restored.toJSON().version).to.equal(3);
+  });
+
+  it("should thread replies to messages", async () => {
+    const conversation = new Conversation("Chat", {
+      actors: [new Actor("Alice"), new Actor("Bob")],
+      generateText,
+    });
+
+    const question = await conversation.inject("Who is there?", {
+      to: ["Alice"],
+      metadata: { channel: "general" },
+    });
+    const { history } = conversation;
+
+    await conversation.query({
+      speaker: "Bob",
+      answerer: conversation.actors[0],
+      query: "Alice?",
+      store: true,
+    });
+
+    const answer = await conversation.inject("It is me.", {
+      speaker: "Alice",
+      replyTo: question,
+    });
+    const reply = await conversation.inject("Welcome!", { replyTo: answer });
+
+    expect(question.to).to.deep.equal(["Alice"]);
+    expect(history.getThread(reply.id)).to.deep.equal([
+      question,
+      answer,
+      reply,
+    ]);
+    expect(history.getReplies(question.id)).to.deep.equal([answer]);
+    expect(history.getReplies(question.id, { deep: true })).to.deep.equal([
+      answer,
+      reply,
+    ]);
+    expect(history.messages[2].replyTo).to.equal(history.messages[1].id);
+  });
+
+  it("should reject snapshots from a newer version", () => {
+    expect(() =>
+      Conversation.fromJSON({
+        ...new Conversation("Future", { actors: [] }).toJSON(),
+        version: Number.MAX_SAFE_INTEGER,
+      })
+    ).to.throw(Error);
+  });
+
+  describe("turnStream()", () => {
+    async function* generateTextStream() {
+      yield "Hello";
+      yield ", world!";
+    }
+
+    it("should stream the text and commit the message", async () => {
+      const conversation = new Conversation("Chat", {
+        actors: [new Actor("Alice")],
+        generateTextStream,
+        generateTokens: async (text) => [...text].map((c) => c.charCodeAt(0)),
+      });
+
+      const chunks = [];
+
+      for await (const chunk of conversation.turnStream({})) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.map((chunk) => chunk.type)).to.deep.equal([
+        "delta",
+        "delta",
+        "done",
+      ]);
+      expect(conversation.history.last()?.text).to.equal("Hello, world!");
+      expect(conversation.history.last()?.tokens).to.have.lengthOf(13);
+    });
+
+    it("should discard the partial text when aborted", async () => {
+      const conversation = new Conversation("Chat", {
+        actors: [new Actor("Alice")],
+        generateTextStream,
+      });
+
+      const ac = new AbortController();
+
+      for await (const _ of conversation.turnStream({ signal: ac.signal })) {
+        ac.abort();
+      }
+
+      expect(conversation.history.messages).to.be.empty;
+    });
+  });
+
+  describe("events", () => {
+    it("should let listeners change the prompt", async () => {
+      const conversation = new Conversation("Chat", {
+        actors: [new Actor("Alice")],
+        generateText: async (prompt) => ({ text: prompt }),
+      });
+
+      conversation.on("beforeTurn", (event) => {
+        event.prompt = "Changed";
+      });
+
+      const response = await conversation.turn({});
+      expect(response.text).to.equal("Changed");
+    });
+
+    it("should abort the generation of a loop", async () => {
+      const controller = new AbortController();
+      const conversation = new Conversation("Chat", {
+        actors: [new Actor("Alice")],
+        generateText: (_, options) =>
+          new Promise((_, reject) => {
+            options?.signal?.addEventListener("abort", () =>
+              reject(options.signal!.reason)
+            );
+            controller.abort(new Error("Stopped"));
+          }),
+      });
+
+      let error: Error | undefined;
+
+      try {
+        for await (const _ of conversation.loop(controller)) {
+          // The first turn is aborted
+        }
+      } catch (err) {
+        error = err as Error;
+      }
+
+      expect(error?.message).to.equal("Stopped");
+      expect(conversation.history.messages).to.be.empty;
+    });
+
+    it("should let listeners veto a message", async () => {
+      const alice = new Actor("Alice", { reflection: { every: 1 } });
+      const conversation = new Conversation("Chat", {
+        actors: [alice],
+        generateText: async () => ({ text: "Another secret" }),
+      });
+
+      const events: string[] = [];
+
+      conversation.on("message", ({ message, veto }) => {
+        if (message.text.includes("secret")) {
+          veto();
+        }
+      });
+      conversation.on("inject", ({ text }) => events.push(text));
+      conversation.on("afterTurn", ({ text }) => events.push(text));
+      conversation.on("reflection", () => events.push("reflection"));
+
+      await conversation.inject("A secret", {});
+      await conversation.inject("Hello!", {});
+      const response = await conversation.turn({});
+
+      expect(conversation.history.messages.map((message) => message.text))
+        .to.deep.equal(["Hello!"]);
+      expect(response.message).to.be.undefined;
+      expect(events).to.deep.equal(["Hello!"]);
+    });
+
+    it("should forward history and context events", async () => {
+      const conversation = new Conversation("Chat", {
+        actors: [new Actor("Alice")],
+      });
+
+      const events: string[] = [];
+
+      conversation.on("feedback", ({ feedback }) => events.push(feedback));
+      conversation.on("contextChanged", ({ action }) => events.push(action));
+
+      const message = await conversation.inject("Hello!", {});
+      conversation.history.up(message);
+      await conversation.context.set("topic", "The topic", "AI");
+      conversation.context.del("topic");
+
+      expect(events).to.deep.equal(["up", "set", "del"]);
+    });
+  });
+
+  describe("editing and branching", () => {
+    const create = () => {
+      let count = 0;
+
+      return new Conversation("Chat", {
+        actors: [new Actor("Alice"), new Actor("Bob")],
+        generateText: async () => ({ text: `answer ${++count}` }),
+      });
+    };
+
+    it("should edit, delete and rewind messages", async () => {
+      const conversation = create();
+      const { history } = conversation;
+
+      for (let i = 0; i < 4; i++) {
+        await conversation.turn({});
+      }
+
+      const [first, second, third] = history.messages;
+      history.summary = { text: "summary", count: 1 };
+
+      const edited = await conversation.edit(second.id, { text: "edited" });
+      expect(history.getById(second.id)).to.equal(edited);
+      expect(history.summary).to.deep.equal({ text: "summary", count: 1 });
+
+      await conversation.edit(first.id, { text: "edited" });
+      expect(history.summary).to.equal(undefined);
+
+      await conversation.delete(third.id);
+      expect(history.messages.map(({ text }) => text)).to.deep.equal([
+        "edited",
+        "edited",
+        "answer 4",
+      ]);
+
+      const removed = await conversation.rewind(first.id);
+      expect(removed).to.have.lengthOf(2);
+      expect(history.messages).to.have.lengthOf(1);
+    });
+
+    it("should keep regenerated turns as alternatives", async () => {
+      const conversation = create();
+      const first = await conversation.turn({});
+      const second = await conversation.regenerate();
+      const third = await conversation.regenerate();
+
+      expect(second.speaker).to.equal(first.speaker);
+      expect(conversation.history.messages).to.deep.equal([third.message]);
+      expect(conversation.history.alternatives[third.message!.id])
+        .to.deep.equal([first.message, second.message]);
+    });
+
+    it("should restore the alternatives of regenerated turns", async () => {
+      const store = new MemoryConversationStore();
+      const conversation = new Conversation("Chat", {
+        actors: [new Actor("Alice")],
+        generateText: async () => ({ text: "Hello!" }),
+        store,
+      });
+      await conversation.turn({});
+      await conversation.regenerate();
+
+      const { alternatives } = conversation.history;
+      const restored = Conversation.fromJSON(conversation.toJSON());
+      const loaded = await Conversation.load(store, conversation.id);
+
+      expect(Object.keys(alternatives)).to.have.lengthOf(1);
+      expect(restored.history.alternatives).to.deep.equal(alternatives);
+      expect(loaded!.history.alternatives).to.deep.equal(alternatives);
+    });
+
+    it("should restore the turn when regenerating fails", async () => {
+      const conversation = create();
+      await conversation.turn({});
+      await conversation.regenerate();
+
+      const messages = [...conversation.history.messages];
+      const alternatives = { ...conversation.history.alternatives };
+      let error: Error | undefined;
+
+      try {
+        await conversation.regenerate({
+          generateText: async () => {
+            throw new Error("Unavailable");
+          },
+        });
+      } catch (err) {
+        error = err as Error;
+      }
+
+      expect(error?.message).to.equal("Unavailable");
+      expect(conversation.history.messages).to.deep.equal(messages);
+      expect(conversation.history.alternatives).to.deep.equal(alternatives);
+    });
+
+    it("should fork a conversation at a message", async () => {
+      const conversation = create();
+
+      for (let i = 0; i < 3; i++) {
+        await conversation.turn({});
+      }
+
+      const [first, second] = conversation.history.messages;
+      const branch = conversation.fork({ at: second.id });
+      await branch.turn({});
+
+      expect(branch.id).not.to.equal(conversation.id);
+      expect(branch.history.messages[0]).to.equal(first);
+      expect(branch.history.messages.map(({ text }) => text)).to.deep.equal([
+        "answer 1",
+        "answer 2",
+        "answer 4",
+      ]);
+      expect(branch.actors[0]).not.to.equal(conversation.actors[0]);
+    });
+  });
+
+  describe("structured output", () => {
+    const schema = {
+      type: "object" as const,
+      properties: {
+        action: { type: "string" as const, enum: ["move", "attack"] },
+        target: { type: "string" as const },
+      },
+      required: ["action", "target"],
+    };
+
+    it("should retry with the errors until the output is valid", async () => {
+      const prompts: string[] = [];
+      const answers = [
+        "I attack the dragon!",
+        '{"action": "dance", "target": "dragon"}',
+        '```json\n{"action": "attack", "target": "dragon"}\n```',
+      ];
+
+      const conversation = new Conversation("Game", {
+        actors: [new Actor("Alice")],
+        generateText: async (prompt) => {
+          prompts.push(prompt);
+          return { text: answers[prompts.length - 1] };
+        },
+      });
+
+      const { data } = await conversation.turn<{ target: string }>({ schema });
+
+      expect(data).to.deep.equal({ action: "attack", target: "dragon" });
+      expect(prompts[0]).to.contain(JSON.stringify(schema));
+      expect(prompts[2]).to.contain(
+        '$.action must be one of "move", "attack"',
+      );
+    });
+
+    it("should fail when the retries are exhausted", async () => {
+      const conversation = new Conversation("Game", {
+        actors: [new Actor("Alice"), new Actor("Bob")],
+        generateText,
+      });
+
+      let error: Error | undefined;
+
+      try {
+        await conversation.query({
+          speaker: "Bob",
+          answerer: conversation.actors[0],
+          query: "What do you do?",
+          schema,
+          retries: 1,
+        });
+      } catch (err) {
+        error = err as Error;
+      }
+
+      expect(error?.message).to.equal(
+        "The answer of 'Alice' does not match the schema: " +
+          "The text does not contain JSON",
+      );
+      expect(conversation.history.messages).to.be.empty;
+    });
+  });
+
+  describe("generation records", () => {
+    it("should record how a message was generated", async () => {
+      const conversation = new Conversation("Chat", {
+        actors: [
+          new Actor("Alice", {
+            persona: {
+              trait: [{ name: "mood", type: "trait", value: "cheerful" }],
+            },
+          }),
+          new Actor("Bob"),
+        ],
+        generateText: async () => ({
+          text: "Hello!",
+          model: "test-model",
+          usage: { promptTokens: 42 },
+        }),
+      });
+
+      const welcome = await conversation.inject("Welcome!", {});
+      const { message, prompt } = await conversation.turn({});
+      const generation = conversation.history.getGeneration(message!.id)!;
+
+      expect(generation.prompt).to.equal(prompt);
+      expect(generation.hash).to.have.lengthOf(64);
+      expect(generation.entries).to.deep.equal([
+        { section: "persona", type: "trait", name: "mood" },
+      ]);
+      expect(generation.messages).to.deep.equal([welcome.id]);
+      expect(generation.tokens).to.deep.equal({
+        prompt: 42,
+        completion: heuristic("Hello!"),
+      });
+      expect(generation.latency).to.be.a("number");
+      expect(generation.model).to.equal("test-model");
+      expect(conversation.history.getGenerated()).to.deep.equal([message]);
+    });
+
+    it("should generate a turn from chat messages", async () => {
+      const received: unknown[] = [];
+      const conversation = new Conversation("Chat", {
+        actors: [new Actor("Alice"), new Actor("Bob")],
+        generateChat: async (messages) => {
+          received.push(messages);
+          return { text: "Hello!" };
+        },
+      });
+
+      await conversation.inject("Welcome!", {});
+      const { message, chat } = await conversation.turn({});
+
+      expect(message!.text).to.equal("Hello!");
+      expect(received).to.deep.equal([chat]);
+      expect(chat![0].role).to.equal("system");
+      expect(chat![1]).to.deep.equal({
+        role: "user",
+        content: "System: Welcome!",
+      });
+      expect(message!.generation!.chat).to.deep.equal(chat);
+    });
+
+    it("should only store the hash of the prompt", async () => {
+      const conversation = new Conversation("Chat", {
+        actors: [new Actor("Alice")],
+        generateText,
+        recordPrompts: false,
+      });
+
+      const { message } = await conversation.turn({});
+
+      expect(message!.generation).not.to.have.property("prompt");
+      expect(message!.generation!.hash).to.have.lengthOf(64);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { expect } from "chai";
+import { Actor } from "../src/lib/Actor";
+import { Conversation } from "../src/lib/Conversation";
+import { MemoryConversationStore } from "../src/lib/ConversationStore";
+import {
+  exportChat,
+  exportCompletions,
+  exportPreferences,
+  toJSONL,
+} from "../src/dataset";
+
+describe("datasets", () => {
+  const create = () => {
+    let count = 0;
+
+    return new Conversation("Chat", {
+      actors: [new Actor("Alice"), new Actor("Bob")],
+      generateText: async () => ({ text: `answer ${++count}` }),
+    });
+  };
+
+  it("should export turns as prompt/completion pairs", async () => {
+    const conversation = create();
+    await conversation.inject("Welcome!", {});
+    await conversation.turn({});
+    await conversation.turn({});
+    conversation.history.up(conversation.history.last()!);
+
+    const records = exportCompletions(conversation.history);
+
+    expect(records).to.have.lengthOf(2);
+    expect(records[0].prompt).to.contain("System: Welcome!");
+    expect(records[0].completion).to.equal("answer 1");
+    expect(records[1].prompt).to.contain("Alice: answer 1");
+    expect(exportCompletions(conversation.history, { minScore: 1 }))
+      .to.deep.equal([records[1]]);
+    expect(exportCompletions(conversation.history, { speakers: ["Alice"] }))
+      .to.deep.equal([records[0]]);
+  });
+
+  it("should export turns as chat records", async () => {
+    const conversation = create();
+    await conversation.inject("Welcome!", {});
+    await conversation.turn({});
+    await conversation.inject("A secret.", {
+      to: ["Alice"],
+      visibility: "whisper",
+    });
+    await conversation.turn({});
+    await conversation.turn({});
+
+    const records = exportChat(conversation.history, {
+      system: (actor) => `You are ${actor}.`,
+      speakers: ["Alice"],
+    });
+
+    expect(records).to.have.lengthOf(2);
+    expect(records[1].messages).to.deep.equal([
+      { role: "system", content: "You are Alice." },
+      { role: "user", content: "System: Welcome!" },
+      { role: "assistant", content: "answer 1" },
+      { role: "user", content: "System: A secret." },
+      { role: "user", content: "Bob: answer 2" },
+      { role: "assistant", content: "answer 3" },
+    ]);
+
+    const [bob] = exportChat(conversation.history, { speakers: ["Bob"] });
+    expect(bob.messages.map(({ content }) => content)).to.deep.equal([
+      "System: Welcome!",
+      "Alice: answer 1",
+      "answer 2",
+    ]);
+  });
+
+  it("should export regenerated turns as preference pairs", async () => {
+    const conversation = create();
+    await conversation.turn({});
+    await conversation.regenerate();
+    const { message } = await conversation.regenerate();
+    const [first, second] = conversation.history.alternatives[message!.id];
+    conversation.history.up(second);
+
+    const records = exportPreferences(conversation.history);
+
+    expect(records).to.deep.equal([
+      {
+        prompt: second.generation!.prompt,
+        chosen: "answer 2",
+        rejected: "answer 3",
+      },
+      {
+        prompt: second.generation!.prompt,
+        chosen: "answer 2",
+        rejected: first.text,
+      },
+    ]);
+    expect(exportPreferences(conversation.history, { minScore: 2 }))
+      .to.deep.equal([]);
+    expect(toJSONL(records).split("\n")).to.have.lengthOf(3);
+  });
+
+  it("should export the preference pairs of stored conversations", async () => {
+    const store = new MemoryConversationStore();
+    let count = 0;
+    const conversation = new Conversation("Chat", {
+      actors: [new Actor("Alice"), new Actor("Bob")],
+      generateText: async () => ({ text: `answer ${++count}` }),
+      store,
+    });
+    await conversation.turn({});
+    await conversation.regenerate();
+
+    const loaded = await Conversation.load(store, conversation.id);
+    const records = exportPreferences(loaded!.history);
+
+    expect(records).to.have.lengthOf(1);
+    expect(records).to.deep.equal(exportPreferences(conversation.history));
+  });
+});
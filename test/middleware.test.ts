@@ -0,0 +1,139 @@
+import { expect } from "chai";
+import {
+  applyMiddleware,
+  cache,
+  GenerateTextLogEntry,
+  GenerateTextMiddleware,
+  logging,
+  rateLimit,
+  retry,
+  timeout,
+} from "../src/middleware";
+import { Actor } from "../src/lib/Actor";
+import { Conversation } from "../src/lib/Conversation";
+import type { ChatMessage, GenerateText } from "../src/types";
+
+describe("middleware", () => {
+  it("should apply middleware outermost first", async () => {
+    const tag = (name: string): GenerateTextMiddleware => (next) => (prompt) =>
+      next(`${prompt} ${name}`);
+
+    const generateText = applyMiddleware(
+      async (prompt) => ({ text: prompt }),
+      [tag("a"), tag("b")],
+    );
+
+    expect((await generateText("prompt")).text).to.equal("prompt a b");
+  });
+
+  it("should retry failed calls", async () => {
+    let calls = 0;
+    const generateText = retry({ retries: 2, delay: 1 })(async () => {
+      if (++calls < 3) {
+        throw new Error("Flaky");
+      }
+
+      return { text: "Hello!" };
+    });
+
+    expect((await generateText("prompt")).text).to.equal("Hello!");
+    expect(calls).to.equal(3);
+  });
+
+  it("should give up after the last retry", async () => {
+    const generateText = retry({ retries: 1, delay: 1 })(async () => {
+      throw new Error("Broken");
+    });
+
+    try {
+      await generateText("prompt");
+      expect.fail("Expected an error");
+    } catch (err) {
+      expect((err as Error).message).to.equal("Broken");
+    }
+  });
+
+  it("should time out and abort slow calls", async () => {
+    let signal: AbortSignal | undefined;
+    const generateText = timeout(5)((_, options) => {
+      signal = options?.signal;
+      return new Promise(() => {});
+    });
+
+    try {
+      await generateText("prompt");
+      expect.fail("Expected an error");
+    } catch (err) {
+      expect((err as Error).message).to.match(/timed out/);
+      expect(signal?.aborted).to.equal(true);
+    }
+  });
+
+  it("should cache results by prompt", async () => {
+    let calls = 0;
+    const generateText = cache()(async (prompt) => ({
+      text: `${prompt} ${++calls}`,
+    }));
+
+    expect((await generateText("a")).text).to.equal("a 1");
+    expect((await generateText("a")).text).to.equal("a 1");
+    expect((await generateText("b")).text).to.equal("b 2");
+  });
+
+  it("should limit the rate of calls", async () => {
+    const generateText = rateLimit({ requests: 2, interval: 20 })(
+      async () => ({ text: "Hello!" }),
+    );
+
+    const start = Date.now();
+    await Promise.all([1, 2, 3].map(() => generateText("prompt")));
+
+    expect(Date.now() - start).to.be.at.least(15);
+  });
+
+  it("should apply conversation and call middleware in turns", async () => {
+    const tag = (name: string): GenerateTextMiddleware => (next) => async (
+      prompt,
+      options,
+    ) => {
+      const result = await next(prompt, options);
+      return { ...result, text: `${result.text} ${name}` };
+    };
+
+    const generateText: GenerateText = async () => ({ text: "Hello!" });
+    const conversation = new Conversation("Chat", {
+      actors: [new Actor("Alice")],
+      generateText,
+      middleware: [tag("conversation")],
+    });
+
+    const response = await conversation.turn({ middleware: [tag("call")] });
+    expect(response.text).to.equal("Hello! call conversation");
+  });
+
+  it("should pass chat messages through the middleware", async () => {
+    const entries: GenerateTextLogEntry[] = [];
+    const received: ChatMessage[][] = [];
+    const conversation = new Conversation("Chat", {
+      actors: [new Actor("Alice"), new Actor("Bob")],
+      generateChat: async (messages) => {
+        received.push(messages);
+        return { text: "Hello!" };
+      },
+      middleware: [
+        logging({ log: (entry) => entries.push(entry) }),
+        (next) => (prompt) => next(`${prompt}\nKeep it short.`),
+      ],
+    });
+
+    const { message } = await conversation.turn({});
+
+    expect(received).to.deep.equal([message!.generation!.chat]);
+    expect(entries.map(({ type }) => type)).to.deep.equal([
+      "request",
+      "response",
+    ]);
+    expect(entries[0].prompt).to.equal(message!.generation!.prompt);
+    expect(entries[0].chat).to.deep.equal(received[0]);
+  });
+});
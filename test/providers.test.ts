@@ -0,0 +1,218 @@
+import { expect } from "chai";
+import { Actor } from "../src/lib/Actor";
+import { Conversation } from "../src/lib/Conversation";
+import { createMockServer, mock, MockServer } from "../src/mock";
+import {
+  anthropic,
+  llamacpp,
+  ollama,
+  openai,
+  Provider,
+} from "../src/providers";
+
+describe("providers", () => {
+  let server: MockServer;
+
+  beforeEach(async () => {
+    server = await createMockServer({ responses: ["Hello there!"] });
+  });
+
+  afterEach(() => server.close());
+
+  const collect = async (stream: AsyncIterable<string>) => {
+    let text = "";
+
+    for await (const delta of stream) {
+      text += delta;
+    }
+
+    return text;
+  };
+
+  it("should be deterministic", async () => {
+    const a = mock();
+    const b = mock();
+
+    expect(await a.generateText("Hi")).to.deep.equal(
+      await b.generateText("Hi"),
+    );
+    expect(await a.generateEmbeddings("Hi")).to.deep.equal(
+      await b.generateEmbeddings("Hi"),
+    );
+    expect(await a.generateTokens("Hi, you!")).to.have.lengthOf(4);
+    expect(a.prompts).to.deep.equal(["Hi"]);
+  });
+
+  const adapters: [string, () => Provider, string][] = [
+    ["OpenAI", () =>
+      openai({
+        baseURL: `${server.url}/v1`,
+        model: "gpt",
+        apiKey: "secret",
+        system: "Be nice.",
+        parameters: { temperature: 0 },
+      }), "/v1/chat/completions"],
+    ["Ollama", () =>
+      ollama({
+        baseURL: server.url,
+        model: "llama",
+        system: "Be nice.",
+        parameters: { temperature: 0 },
+      }), "/api/generate"],
+    ["llama.cpp", () =>
+      llamacpp({
+        baseURL: server.url,
+        model: "llama",
+        system: "Be nice.",
+        parameters: { temperature: 0 },
+      }), "/completion"],
+    ["Anthropic", () =>
+      anthropic({
+        baseURL: server.url,
+        model: "claude",
+        apiKey: "secret",
+        system: "Be nice.",
+        parameters: { temperature: 0 },
+      }), "/v1/messages"],
+  ];
+
+  for (const [name, create, path] of adapters) {
+    it(`should generate text with the ${name} adapter`, async () => {
+      const provider = create();
+      const result = await provider.generateText("Hi");
+
+      expect(result.text).to.equal("Hello there!");
+      expect(result.usage).to.deep.equal({
+        promptTokens: 4,
+        completionTokens: 3,
+      });
+      expect(server.requests[0].path).to.equal(path);
+      expect(server.requests[0].body.temperature ??
+        server.requests[0].body.options?.temperature).to.equal(0);
+      expect(server.provider.prompts).to.deep.equal(["Be nice.\n\nHi"]);
+      expect(await collect(provider.generateTextStream("Hi"))).to.equal(
+        "Hello there!",
+      );
+    });
+  }
+
+  it("should generate text from chat messages", async () => {
+    const messages = [
+      { role: "system" as const, content: "You are Bob." },
+      { role: "user" as const, content: "Alice: Hi" },
+      { role: "user" as const, content: "Alice: Hello?" },
+    ];
+    const providers = [
+      openai({ baseURL: `${server.url}/v1`, model: "gpt", system: "Be nice." }),
+      ollama({ baseURL: server.url, model: "llama", system: "Be nice." }),
+      llamacpp({ baseURL: server.url, model: "llama", system: "Be nice." }),
+      anthropic({ baseURL: server.url, model: "claude", system: "Be nice." }),
+    ];
+
+    for (const provider of providers) {
+      expect((await provider.generateChat(messages)).text).to.equal(
+        "Hello there!",
+      );
+    }
+
+    expect(server.requests.map(({ path }) => path)).to.deep.equal([
+      "/v1/chat/completions",
+      "/api/chat",
+      "/v1/chat/completions",
+      "/v1/messages",
+    ]);
+    expect(server.requests[0].body.messages).to.deep.equal([
+      { role: "system", content: "Be nice." },
+      ...messages,
+    ]);
+    expect(server.requests[3].body.system).to.equal("Be nice.\n\nYou are Bob.");
+    expect(server.requests[3].body.messages).to.deep.equal([
+      { role: "user", content: "Alice: Hi\n\nAlice: Hello?" },
+    ]);
+    expect(new Set(server.provider.prompts)).to.have.lengthOf(1);
+  });
+
+  it("should start Anthropic messages with a user message", async () => {
+    const provider = anthropic({ baseURL: server.url, model: "claude" });
+
+    await provider.generateChat([
+      { role: "system", content: "You are Bob." },
+      { role: "assistant", content: "Hi" },
+      { role: "user", content: "Alice: Hello?" },
+    ]);
+
+    expect(server.requests[0].body.messages).to.deep.equal([
+      { role: "user", content: "Start the conversation." },
+      { role: "assistant", content: "Hi" },
+      { role: "user", content: "Alice: Hello?" },
+    ]);
+  });
+
+  it("should send the API key", async () => {
+    await openai({ baseURL: `${server.url}/v1`, model: "gpt", apiKey: "a" })
+      .generateText("Hi");
+    await anthropic({ baseURL: server.url, model: "claude", apiKey: "b" })
+      .generateText("Hi");
+
+    expect(server.requests[0].headers.authorization).to.equal("Bearer a");
+    expect(server.requests[1].headers["x-api-key"]).to.equal("b");
+    expect(server.requests[1].headers["anthropic-version"]).to.equal(
+      "2023-06-01",
+    );
+  });
+
+  it("should generate tokens and embeddings", async () => {
+    const expected = await mock().generateEmbeddings("Hi");
+    const providers = [
+      openai({
+        baseURL: `${server.url}/v1`,
+        model: "gpt",
+        embeddingModel: "e",
+      }),
+      ollama({ baseURL: server.url, model: "llama", embeddingModel: "e" }),
+      llamacpp({
+        baseURL: server.url,
+        model: "llama",
+        tokenize: true,
+        embeddings: true,
+      }),
+    ];
+
+    for (const provider of providers) {
+      expect(await provider.generateEmbeddings!("Hi")).to.deep.equal(expected);
+    }
+
+    expect(await providers[2].generateTokens!("Hi")).to.have.lengthOf(1);
+    expect(openai({ model: "gpt" })).not.to.have.property(
+      "generateEmbeddings",
+    );
+  });
+
+  it("should fail with the status of the response", async () => {
+    let error: (Error & { status?: number }) | undefined;
+
+    try {
+      await openai({ baseURL: server.url, model: "gpt" }).generateText("Hi");
+    } catch (err) {
+      error = err as Error;
+    }
+
+    expect(error?.status).to.equal(404);
+  });
+
+  it("should run a conversation against the server", async () => {
+    const conversation = new Conversation("Chat", {
+      actors: [new Actor("Alice"), new Actor("Bob")],
+      ...openai({ baseURL: `${server.url}/v1`, model: "gpt" }),
+    });
+
+    const { message } = await conversation.turn({});
+
+    expect(message!.text).to.equal("Hello there!");
+    expect(message!.generation!.model).to.equal("mock");
+    expect(server.requests[0].body.messages).to.deep.equal(
+      message!.generation!.chat,
+    );
+    expect(server.requests[0].body.messages![0].role).to.equal("system");
+  });
+});
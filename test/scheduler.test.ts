@@ -0,0 +1,170 @@
+import { expect } from "chai";
+import { Actor } from "../src/lib/Actor";
+import { Conversation } from "../src/lib/Conversation";
+import {
+  AddresseeScheduler,
+  LeastRecentlySpokenScheduler,
+  ModeratorScheduler,
+  RandomScheduler,
+  schedulers,
+} from "../src/lib/Scheduler";
+
+describe("Scheduler", () => {
+  const actors = () => [new Actor("Alice"), new Actor("Bob"), new Actor("Eve")];
+  const next = async (conversation: Conversation) =>
+    (await conversation.scheduler.getNextSpeaker()).name;
+
+  describe("RandomScheduler", () => {
+    it("should select actors by weight", async () => {
+      const conversation = new Conversation("Chat", {
+        actors: actors(),
+        scheduler: (conversation) =>
+          new RandomScheduler(conversation, {
+            weights: { Alice: 0, Bob: 3, Eve: 1 },
+            random: () => 0.8,
+          }),
+      });
+
+      expect(await next(conversation)).to.equal("Eve");
+    });
+
+    it("should never select actors with a weight of zero", async () => {
+      const conversation = new Conversation("Chat", {
+        actors: actors(),
+        scheduler: (conversation) =>
+          new RandomScheduler(conversation, {
+            weights: { Alice: 0, Eve: 0 },
+          }),
+      });
+
+      for (let i = 0; i < 10; i++) {
+        expect(await next(conversation)).to.equal("Bob");
+      }
+    });
+  });
+
+  describe("LeastRecentlySpokenScheduler", () => {
+    it("should select the actor that spoke the least", async () => {
+      const conversation = new Conversation("Chat", {
+        actors: actors(),
+        scheduler: LeastRecentlySpokenScheduler,
+        messages: [
+          { actor: "Alice", text: "Hi", feedback: [0, 0] },
+          { actor: "Eve", text: "Hi", feedback: [0, 0] },
+          { actor: "Alice", text: "Hi", feedback: [0, 0] },
+        ],
+      });
+
+      expect(await next(conversation)).to.equal("Bob");
+
+      conversation.history.push({ actor: "Bob", text: "Hi" });
+      expect(await next(conversation)).to.equal("Eve");
+    });
+  });
+
+  describe("AddresseeScheduler", () => {
+    it("should select the actor mentioned in the last message", async () => {
+      const conversation = new Conversation("Chat", {
+        actors: actors(),
+        scheduler: AddresseeScheduler,
+        messages: [
+          { actor: "Alice", text: "What do you think, eve?", feedback: [0, 0] },
+        ],
+      });
+
+      expect(await next(conversation)).to.equal("Eve");
+    });
+
+    it("should fall back to round-robin", async () => {
+      const conversation = new Conversation("Chat", {
+        actors: actors(),
+        scheduler: AddresseeScheduler,
+        messages: [{ actor: "Alice", text: "Hello!", feedback: [0, 0] }],
+      });
+
+      expect(await next(conversation)).to.equal("Alice");
+      expect(await next(conversation)).to.equal("Bob");
+    });
+  });
+
+  describe("ModeratorScheduler", () => {
+    it("should select the actor named by the model", async () => {
+      const conversation = new Conversation("Chat", {
+        actors: actors(),
+        scheduler: ModeratorScheduler,
+        generateText: async () => ({ text: " Bob." }),
+      });
+
+      expect(await next(conversation)).to.equal("Bob");
+    });
+
+    it("should not escape the moderator prompt", async () => {
+      let prompt = "";
+      const conversation = new Conversation("Chat", {
+        actors: [new Actor("Alice"), new Actor("O'Brien")],
+        scheduler: ModeratorScheduler,
+        generateText: async (text) => {
+          prompt = text;
+          return { text: "O'Brien" };
+        },
+        messages: [{ actor: "Alice", text: `Say "hi" & go` }],
+      });
+
+      expect(await next(conversation)).to.equal("O'Brien");
+      expect(prompt).to.contain("O'Brien");
+      expect(prompt).to.contain(`Say "hi" & go`);
+    });
+
+    it("should fall back to round-robin on invalid output", async () => {
+      const conversation = new Conversation("Chat", {
+        actors: actors(),
+        scheduler: ModeratorScheduler,
+        generateText: async () => ({ text: "Either Bob or Eve" }),
+      });
+
+      expect(await next(conversation)).to.equal("Alice");
+    });
+
+    it("should be used by turn()", async () => {
+      const conversation = new Conversation("Chat", {
+        actors: actors(),
+        scheduler: (conversation) =>
+          new ModeratorScheduler(conversation, {
+            generateText: async () => ({ text: "Eve" }),
+          }),
+        generateText: async () => ({ text: "Hello!" }),
+      });
+
+      const response = await conversation.turn({});
+      expect(response.speaker).to.equal("Eve");
+    });
+  });
+
+  describe("SchedulerRegistry", () => {
+    it("should restore a scheduler by type", () => {
+      const conversation = new Conversation("Chat", {
+        actors: actors(),
+        scheduler: (conversation) =>
+          new RandomScheduler(conversation, { weights: { Alice: 2 } }),
+      });
+
+      const restored = Conversation.fromJSON(
+        JSON.parse(JSON.stringify(conversation)),
+      );
+
+      expect(restored.scheduler).to.be.an.instanceOf(RandomScheduler);
+      expect(restored.scheduler.toJSON()).to.deep.equal({
+        type: "RandomScheduler",
+        weights: { Alice: 2 },
+      });
+    });
+
+    it("should throw for unknown types", () => {
+      expect(() =>
+        schedulers.create(new Conversation("Chat", { actors: [] }), {
+          type: "UnknownScheduler",
+        })
+      ).to.throw(TypeError);
+    });
+  });
+});
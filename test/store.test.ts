@@ -0,0 +1,122 @@
+import { expect } from "chai";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Actor } from "../src/lib/Actor";
+import { Conversation } from "../src/lib/Conversation";
+import {
+  ConversationStore,
+  FileConversationStore,
+  MemoryConversationStore,
+} from "../src/lib/ConversationStore";
+
+const generateText = async () => ({ text: "Hello!" });
+
+function describeStore(name: string, create: () => Promise<ConversationStore>) {
+  describe(name, () => {
+    let store: ConversationStore;
+
+    beforeEach(async () => {
+      store = await create();
+    });
+
+    it("should append messages to a saved conversation", async () => {
+      const conversation = new Conversation("Chat", {
+        actors: [new Actor("Alice"), new Actor("Bob")],
+        generateText,
+        store,
+      });
+
+      await conversation.save();
+      await conversation.inject("Welcome!", {});
+      await conversation.inject("Ephemeral", { ephemeral: true });
+      await conversation.turn({});
+
+      const restored = await Conversation.load(store, conversation.id);
+
+      expect(restored).to.be.an.instanceOf(Conversation);
+      expect(restored!.history.messages.map((message) => message.text))
+        .to.deep.equal(["Welcome!", "Hello!"]);
+      expect(await store.list()).to.deep.equal([conversation.id]);
+    });
+
+    it("should save the conversation with its first message", async () => {
+      const alice = new Actor("Alice", { reflection: { every: 1 } });
+      const conversation = new Conversation("Chat", {
+        actors: [alice],
+        generateText: async (prompt) => ({
+          text: prompt.startsWith("## Instructions\nReflect")
+            ? JSON.stringify({ facts: [{ name: "mood", value: "Happy" }] })
+            : "Hello!",
+        }),
+        store,
+      });
+
+      await conversation.turn({});
+      await conversation.inject("Welcome!", {});
+
+      const restored = await Conversation.load(store, conversation.id);
+
+      expect(restored!.history.messages.map((message) => message.text))
+        .to.deep.equal(["Hello!", "Welcome!"]);
+      expect(restored!.actors[0].knowledge.fact![0].value).to.equal("Happy");
+
+      let error: Error | undefined;
+
+      try {
+        await store.append("unknown", restored!.history.messages[0]);
+      } catch (err) {
+        error = err as Error;
+      }
+
+      expect(error?.message).to.equal("Conversation 'unknown' is not saved");
+      expect(await store.list()).to.deep.equal([conversation.id]);
+    });
+
+    it("should delete a conversation", async () => {
+      const conversation = new Conversation("Chat", { actors: [], store });
+
+      await conversation.save();
+      await store.delete(conversation.id);
+
+      expect(await store.load(conversation.id)).to.equal(undefined);
+      expect(await store.list()).to.deep.equal([]);
+    });
+  });
+}
+
+describe("ConversationStore", () => {
+  describeStore("MemoryConversationStore", async () =>
+    new MemoryConversationStore()
+  );
+
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "phenomenal-ai-"));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describeStore("FileConversationStore", async () =>
+    new FileConversationStore(await mkdtemp(join(directory, "store-")))
+  );
+
+  it("should compact the file when saving", async () => {
+    const store = new FileConversationStore(directory);
+    const conversation = new Conversation("Chat", { actors: [], store });
+
+    await conversation.save();
+    await conversation.inject("Welcome!", {});
+    await conversation.save();
+
+    const contents = await readFile(
+      join(directory, `${conversation.id}.jsonl`),
+      "utf8",
+    );
+
+    expect(contents.trim().split("\n")).to.have.lengthOf(1);
+  });
+});
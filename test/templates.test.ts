@@ -0,0 +1,142 @@
+import { expect } from "chai";
+import { Actor } from "../src/lib/Actor";
+import { Conversation } from "../src/lib/Conversation";
+import { MemoryConversationStore } from "../src/lib/ConversationStore";
+import { TemplateRegistry, templates } from "../src/lib/TemplateRegistry";
+
+describe("TemplateRegistry", () => {
+  const persona = {
+    trait: [{ name: "mood", type: "trait", value: "cheerful" }],
+  };
+
+  it("should render the sections of the default template", async () => {
+    const alice = new Actor("Alice", { persona });
+    const conversation = new Conversation("Chat", {
+      actors: [alice],
+      messages: [{ actor: "Bob", text: "Hi!" }],
+    });
+
+    const prompt = await alice.render(conversation);
+
+    expect(prompt).to.match(/^## Instructions\n/);
+    expect(prompt).to.contain("## Persona\ntrait: cheerful\n\n## Knowledge");
+    expect(prompt).to.contain("## Messages\nBob: Hi!\nAlice:");
+    expect(templates.getPartials()).to.have.keys(
+      "instructions",
+      "context",
+      "persona",
+      "knowledge",
+      "memory",
+      "tools",
+      "summary",
+      "messages",
+    );
+  });
+
+  it("should override a section of an actor", async () => {
+    const alice = new Actor("Alice", {
+      persona,
+      partials: {
+        persona: "## Who you are\n{{#persona}}- {{value}}\n{{/persona}}",
+      },
+    });
+    const conversation = new Conversation("Chat", { actors: [alice] });
+
+    const prompt = await alice.render(conversation);
+    const [system] = await alice.renderChat(conversation);
+
+    expect(prompt).to.contain("## Who you are\n- cheerful\n");
+    expect(prompt).not.to.contain("## Persona");
+    expect(system.content).to.contain("## Who you are\n- cheerful\n");
+    expect(Actor.fromJSON(alice.toJSON()).partials).to.deep.equal(
+      alice.partials,
+    );
+  });
+
+  it("should add a section with a registry", async () => {
+    const registry = templates.clone()
+      .register("actor", "{{> goals}}{{> messages}}{{name}}:")
+      .registerPartial("goals", "Goals: {{#persona}}{{value}}{{/persona}}\n");
+
+    const alice = new Actor("Alice", { registry, persona });
+    const conversation = new Conversation("Chat", { actors: [alice] });
+
+    expect(await alice.render(conversation)).to.equal(
+      "Goals: cheerful\n## Messages\nAlice:",
+    );
+    expect(templates.getPartials()).not.to.have.property("goals");
+    expect(() => new TemplateRegistry().get("actor")).to.throw(TypeError);
+  });
+
+  it("should restore actors with the partials of a registry", async () => {
+    const registry = templates.clone()
+      .registerPartial("goals", "Goals: {{#persona}}{{value}}{{/persona}}\n");
+    const alice = new Actor("Alice", {
+      template: "{{> goals}}{{> messages}}{{name}}:",
+      registry,
+      persona,
+    });
+    const store = new MemoryConversationStore();
+    const conversation = new Conversation("Chat", { actors: [alice], store });
+
+    await conversation.save();
+
+    const restored = Conversation.fromJSON(conversation.toJSON(), {
+      registry,
+    });
+    const loaded = await Conversation.load(store, conversation.id, {
+      registry,
+    });
+
+    for (const { actors: [actor] } of [restored, loaded!]) {
+      expect(await actor.render(conversation)).to.equal(
+        "Goals: cheerful\n## Messages\nAlice:",
+      );
+    }
+
+    expect(() => Conversation.fromJSON(conversation.toJSON())).to.throw(
+      /Unknown partial 'goals'/,
+    );
+  });
+
+  it("should provide template variants", async () => {
+    const narrator = new Actor("Narrator", {
+      template: templates.get("narrator"),
+    });
+    const conversation = new Conversation("Story", {
+      actors: [narrator, new Actor("Alice"), new Actor("Bob")],
+    });
+
+    const prompt = await narrator.render(conversation);
+
+    expect(prompt).to.contain("the narrator of the following story");
+    expect(prompt).to.contain("## Characters\n- Alice\n- Bob\n");
+    expect(templates.has("interviewer")).to.be.true;
+    expect(templates.has("debater")).to.be.true;
+    expect(() => templates.get("poet")).to.throw(/Unknown template 'poet'/);
+  });
+
+  it("should validate templates", () => {
+    const invalid: [string, RegExp][] = [
+      ["{{#messages}}{{text}}", /Invalid template/],
+      ["Hello {{nmae}}", /Unknown variable 'nmae'/],
+      ["{{#messages}}{{value}}{{/messages}}", /Unknown variable 'value'/],
+      ["{{> goals}}", /Unknown partial 'goals'/],
+    ];
+
+    for (const [template, error] of invalid) {
+      expect(() => new Actor("Alice", { template })).to.throw(error);
+    }
+
+    expect(() =>
+      new Actor("Alice", {
+        template: "{{#tools.length}}{{#tools}}{{name}}{{/tools}}" +
+          "{{/tools.length}}{{#messages}}{{actor}}: {{text}}{{/messages}}" +
+          "{{#actor.persona.trait}}{{value}}{{/actor.persona.trait}}",
+      })
+    ).not.to.throw();
+    expect(() =>
+      new Actor("Alice", { partials: { persona: "{{#persona}}{{/persona" } })
+    ).to.throw(/Invalid partial 'persona'/);
+  });
+});
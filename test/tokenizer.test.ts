@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import { writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Actor } from "../src/lib/Actor";
+import { Conversation } from "../src/lib/Conversation";
+import { BPETokenizer } from "../src/tokenizer";
+import { heuristic } from "../src/util";
+
+describe("tokenizers", () => {
+  // Every byte, and the merges that make up "hello"
+  const ranks: [Uint8Array, number][] = [
+    ...Array.from({ length: 256 }, (_, byte): [Uint8Array, number] => [
+      Uint8Array.of(byte),
+      byte,
+    ]),
+    ...["he", "ll", "llo", "hello"].map((text, i): [Uint8Array, number] => [
+      Buffer.from(text),
+      256 + i,
+    ]),
+  ];
+
+  const load = async () => {
+    const path = join(tmpdir(), `vocabulary-${process.pid}.tiktoken`);
+    await writeFile(
+      path,
+      ranks.map(([bytes, rank]) =>
+        `${Buffer.from(bytes).toString("base64")} ${rank}\n`
+      ).join(""),
+    );
+    return BPETokenizer.load(path);
+  };
+
+  it("should encode and decode texts", async () => {
+    const tokenizer = await load();
+
+    expect(tokenizer.encode("hello")).to.deep.equal([259]);
+    expect(tokenizer.encode("hello hello!")).to.deep.equal([259, 32, 259, 33]);
+    expect(tokenizer.count("hello hello!")).to.equal(4);
+    expect(tokenizer.encode("help")).to.deep.equal([256, 108, 112]);
+
+    for (const text of ["hello, world", "héllo 你好\n\n  there"]) {
+      expect(tokenizer.decode(tokenizer.encode(text))).to.equal(text);
+    }
+
+    expect(() => tokenizer.decode([1000])).to.throw(/Unknown token 1000/);
+    expect(() => new BPETokenizer(ranks.slice(1))).to.throw(/byte 0x00/);
+  });
+
+  it("should count the tokens of a conversation", async () => {
+    const bpe = await load();
+    let calls = 0;
+    const tokenizer = {
+      count: (text: string) => {
+        calls++;
+        return bpe.count(text);
+      },
+      encode: (text: string) => bpe.encode(text),
+      decode: (tokens: number[]) => bpe.decode(tokens),
+    };
+
+    const alice = new Actor("Alice", {
+      template: "{{#messages}}{{text}}\n{{/messages}}",
+    });
+    const conversation = new Conversation("Chat", {
+      actors: [alice],
+      tokenizer,
+      window: 6,
+      messages: Array.from({ length: 5 }, () => ({
+        actor: "Bob",
+        text: "hello hello",
+      })),
+    });
+
+    const [message] = conversation.history.messages;
+
+    expect(await conversation.countTokens(message)).to.equal(3);
+    expect(await conversation.countTokens(message)).to.equal(3);
+    expect(calls).to.equal(1);
+
+    const prompt = await alice.render(conversation);
+    expect(bpe.count(prompt)).to.be.at.most(6);
+    expect(prompt).to.equal("hello hello\n");
+
+    const injected = await conversation.inject("hello", { tokens: true });
+    expect(injected.tokens).to.deep.equal([259]);
+  });
+
+  it("should estimate tokens with the heuristic", () => {
+    expect(heuristic("")).to.equal(0);
+    expect(heuristic("The cat sat.")).to.equal(5);
+    expect(heuristic("你好")).to.equal(2);
+    expect(heuristic("Привет")).to.equal(3);
+  });
+});
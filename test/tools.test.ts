@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import { Actor } from "../src/lib/Actor";
+import { Conversation } from "../src/lib/Conversation";
+import { validate } from "../src/schema";
+import type { Tool } from "../src/types";
+
+describe("tools", () => {
+  const weather: Tool<{ city: string }> = {
+    name: "weather",
+    description: "Get the weather in a city.",
+    parameters: {
+      type: "object",
+      properties: { city: { type: "string" } },
+      required: ["city"],
+    },
+    handler: ({ city }) => ({ city, forecast: "sunny" }),
+  };
+
+  const call = (name: string, args: unknown) =>
+    `<tool_call>${JSON.stringify({ name, arguments: args })}</tool_call>`;
+
+  it("should validate values against a schema", () => {
+    const schema = weather.parameters;
+
+    expect(validate(schema, { city: "Paris" })).to.deep.equal([]);
+    expect(validate(schema, {})).to.deep.equal(["$.city is required"]);
+    expect(validate(schema, { city: 1 })).to.deep.equal([
+      "$.city must be of type string",
+    ]);
+  });
+
+  it("should run tool calls and re-prompt the actor", async () => {
+    const alice = new Actor("Alice", { tools: [weather] });
+    const prompts: string[] = [];
+    const conversation = new Conversation("Chat", {
+      actors: [alice],
+      generateText: async (prompt) => {
+        prompts.push(prompt);
+        return {
+          text: prompts.length === 1
+            ? call("weather", { city: "Paris" })
+            : "It is sunny in Paris.",
+        };
+      },
+    });
+
+    const response = await conversation.turn({});
+
+    expect(prompts[0]).to.contain("- weather: Get the weather in a city.");
+    expect(prompts[1]).to.contain('Tool: <tool_result name="weather">');
+    expect(response.text).to.equal("It is sunny in Paris.");
+    expect(response.toolCalls).to.deep.equal([{
+      name: "weather",
+      arguments: { city: "Paris" },
+      result: { city: "Paris", forecast: "sunny" },
+    }]);
+    expect(conversation.history.messages).to.have.lengthOf(1);
+  });
+
+  it("should feed errors back to the actor", async () => {
+    let calls = 0;
+    const conversation = new Conversation("Chat", {
+      actors: [new Actor("Alice")],
+      tools: [weather],
+      generateText: async () => ({
+        text: calls++ ? "Sorry." : call("weather", { town: "Paris" }),
+      }),
+    });
+
+    const { toolCalls } = await conversation.turn({});
+
+    expect(toolCalls![0].error).to.equal(
+      "Invalid arguments: $.city is required",
+    );
+  });
+
+  it("should stop after the maximum number of iterations", async () => {
+    const conversation = new Conversation("Chat", {
+      actors: [new Actor("Alice")],
+      tools: [weather],
+      maxToolIterations: 2,
+      generateText: async () => ({ text: call("weather", { city: "Paris" }) }),
+    });
+
+    let error: Error | undefined;
+
+    try {
+      await conversation.turn({});
+    } catch (err) {
+      error = err as Error;
+    }
+
+    expect(error?.message).to.contain("maximum of 2 tool iterations");
+    expect(conversation.history.messages).to.be.empty;
+  });
+});
@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import { Actor } from "../src/lib/Actor";
+import { Conversation } from "../src/lib/Conversation";
+import { MemoryVectorStore } from "../src/lib/VectorStore";
+
+describe("VectorStore", () => {
+  const embed = async (text: string) => [
+    [text.includes("cat") ? 1 : 0, text.includes("dog") ? 1 : 0, 0.1],
+  ];
+
+  describe("MemoryVectorStore", () => {
+    it("should return the most similar records", async () => {
+      const store = new MemoryVectorStore();
+
+      await store.add([
+        {
+          id: "1",
+          actor: "a",
+          type: "event",
+          value: "cat",
+          embeddings: [[1, 0]],
+          createdAt: 0,
+        },
+        {
+          id: "2",
+          actor: "a",
+          type: "event",
+          value: "dog",
+          embeddings: [[0, 1]],
+          createdAt: 0,
+        },
+        {
+          id: "3",
+          actor: "b",
+          type: "event",
+          value: "cat",
+          embeddings: [[1, 0]],
+          createdAt: 0,
+        },
+      ]);
+
+      const matches = await store.query([[0.9, 0.1]], {
+        k: 1,
+        filter: { actor: "a" },
+      });
+
+      expect(matches.map(({ record }) => record.id)).to.deep.equal(["1"]);
+    });
+  });
+
+  describe("episodic memory", () => {
+    it("should recall memories in later conversations", async () => {
+      const store = new MemoryVectorStore();
+      const alice = new Actor("Alice", {
+        template: "{{#memory}}{{value}}\n{{/memory}}",
+      });
+
+      const first = new Conversation("First", {
+        actors: [alice],
+        generateText: async () => ({ text: "I love my cat" }),
+        generateEmbeddings: embed,
+        episodic: { store, recall: 1 },
+      });
+
+      await first.inject("The dog is barking", { speaker: "Narrator" });
+      await first.turn({});
+
+      expect(store.size).to.equal(2);
+
+      // The memories of the messages in the prompt are not recalled
+      expect(await alice.render(first)).to.equal("");
+
+      // A restored conversation does not remember the same messages again
+      const restored = Conversation.fromJSON(first.toJSON(), {
+        generateText: async () => ({ text: "I love my dog" }),
+        generateEmbeddings: embed,
+        episodic: { store, recall: 1 },
+      });
+
+      await restored.turn({});
+      expect(store.size).to.equal(3);
+
+      await restored.fork().turn({});
+      expect(store.size).to.equal(4);
+
+      const second = new Conversation("Second", {
+        actors: [alice],
+        generateEmbeddings: embed,
+        episodic: { store, recall: 1 },
+        messages: [
+          { actor: "Bob", text: "Do you have a cat?", feedback: [0, 0] },
+        ],
+      });
+
+      const prompt = await alice.render(second);
+      expect(prompt).to.equal("Alice: I love my cat\n");
+    });
+  });
+});
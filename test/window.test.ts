@@ -0,0 +1,186 @@
+import { expect } from "chai";
+import { Actor } from "../src/lib/Actor";
+import { Conversation } from "../src/lib/Conversation";
+import type { ActorData } from "../src/types";
+import { buildWindow, explainWindow } from "../src/util";
+
+describe("buildWindow", () => {
+  // An entry with the given number of tokens
+  const entry = (
+    name: string,
+    size: number,
+    data: Partial<ActorData> = {},
+  ): ActorData => ({
+    name,
+    type: "fact",
+    value: name,
+    tokens: Array.from({ length: size }, (_, i) => i),
+    ...data,
+  });
+
+  const names = (window: Record<string, ActorData[]>) =>
+    Object.fromEntries(
+      Object.entries(window).map((
+        [section, values],
+      ) => [section, values.map((value) => value.name)]),
+    );
+
+  it("should rank values by keep, priority and original order", () => {
+    const data = {
+      knowledge: {
+        fact: [entry("a", 2), entry("b", 2), entry("c", 1, { keep: true })],
+        rule: [entry("d", 2, { priority: 1 })],
+      },
+    };
+
+    const explained = explainWindow(data, 5);
+
+    expect(explained.map(({ name, reason }) => [name, reason])).to.deep.equal([
+      ["c", "keep"],
+      ["d", "priority"],
+      ["a", "priority"],
+      ["b", "budget"],
+    ]);
+    expect(names(buildWindow(data, 5))).to.deep.equal({
+      knowledge: ["a", "c", "d"],
+    });
+  });
+
+  it("should add smaller values after a value that does not fit", () => {
+    const data = {
+      knowledge: {
+        fact: [entry("big", 5, { priority: 2 }), entry("small", 1)],
+      },
+    };
+
+    expect(buildWindow(data, 4)).to.deep.equal({});
+    expect(explainWindow(data, 4).map(({ reason }) => reason)).to.deep.equal([
+      "budget",
+      "priority",
+    ]);
+    expect(names(buildWindow(data, 4, undefined, { bestFit: true })))
+      .to.deep.equal({ knowledge: ["small"] });
+  });
+
+  it("should fill the quotas of the sections", () => {
+    const data = {
+      persona: { trait: [entry("p1", 3), entry("p2", 3)] },
+      knowledge: {
+        fact: [
+          entry("k1", 4, { priority: 5 }),
+          entry("k2", 4, { priority: 4 }),
+        ],
+      },
+    };
+
+    expect(names(buildWindow(data, 10))).to.deep.equal({
+      knowledge: ["k1", "k2"],
+    });
+
+    const min = explainWindow(data, 10, undefined, {
+      quotas: { persona: { min: 0.5 } },
+    });
+
+    expect(min.map(({ name, reason }) => [name, reason])).to.deep.equal([
+      ["k1", "priority"],
+      ["k2", "budget"],
+      ["p1", "quota"],
+      ["p2", "priority"],
+    ]);
+
+    const max = explainWindow(data, 10, undefined, {
+      quotas: { knowledge: { max: 0.3 } },
+    });
+
+    expect(max.filter(({ included }) => included).map(({ name }) => name))
+      .to.deep.equal(["p1", "p2"]);
+    expect(max.find(({ name }) => name === "k1")!.reason).to.equal("quota");
+
+    data.knowledge.fact[1].keep = true;
+
+    expect(
+      names(buildWindow(data, 10, undefined, {
+        quotas: { knowledge: { max: 0.3 } },
+      })),
+    ).to.deep.equal({ persona: ["p1", "p2"], knowledge: ["k2"] });
+  });
+
+  it("should decay the priority of memories", () => {
+    const now = Date.now();
+    const hour = 60 * 60 * 1000;
+    const data = {
+      memory: {
+        experience: [
+          entry("old", 2, { priority: 2, createdAt: now - 2 * hour }),
+          entry("new", 2, { priority: 1, createdAt: now }),
+        ],
+      },
+    };
+
+    expect(names(buildWindow(data, 2))).to.deep.equal({ memory: ["old"] });
+
+    const explained = explainWindow(data, 2, undefined, {
+      decay: { halfLife: hour },
+      now,
+    });
+
+    expect(explained.map(({ name, score }) => [name, score])).to.deep.equal([
+      ["new", 1],
+      ["old", 0.5],
+    ]);
+    expect(explained[0].included).to.be.true;
+  });
+
+  it("should decay memories without or with negative priorities", () => {
+    const now = Date.now();
+    const hour = 60 * 60 * 1000;
+    const explain = (priority?: number) =>
+      explainWindow(
+        {
+          memory: {
+            experience: [
+              entry("old", 2, { priority, createdAt: now - hour }),
+              entry("new", 2, { priority, createdAt: now }),
+            ],
+          },
+        },
+        2,
+        undefined,
+        { decay: { halfLife: hour }, now },
+      ).map(({ name, score, included }) => [name, score, included]);
+
+    expect(explain()).to.deep.equal([
+      ["new", 0, true],
+      ["old", -0.5, false],
+    ]);
+    expect(explain(-2)).to.deep.equal([
+      ["new", -2, true],
+      ["old", -2.5, false],
+    ]);
+  });
+
+  it("should apply the quotas of the context window", async () => {
+    const alice = new Actor("Alice", {
+      template: "{{#persona}}{{value}}\n{{/persona}}" +
+        "{{#knowledge}}{{value}}\n{{/knowledge}}",
+      persona: { trait: [entry("calm", 5, { type: "trait" })] },
+      knowledge: { fact: [entry("k1", 6, { priority: 2 })] },
+    });
+    const conversation = new Conversation("Chat", {
+      actors: [alice],
+      window: { max: 20, quotas: { persona: { min: 0.5 } } },
+    });
+
+    const report = await alice.explainRender(conversation);
+
+    expect(report.prompt).to.equal("calm\n");
+    expect(report.entries.map(({ name, reason }) => [name, reason])).to.deep
+      .equal([["k1", "budget"], ["calm", "quota"]]);
+    expect(() =>
+      new Conversation("Chat", {
+        actors: [],
+        window: { max: 100, quotas: { persona: { min: 0.6, max: 0.5 } } },
+      })
+    ).to.throw(/quotas/);
+  });
+});